@@ -7,6 +7,7 @@ export const navItemsArr = [
   { name: "Home", href: "/" },
   { name: "Editor", href: "/editor" },
   { name: "Viewer", href: "/viewer" },
+  { name: "Quality", href: "/quality" },
 ];
 
 export const Navbar = () => {
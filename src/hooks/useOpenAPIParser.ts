@@ -1,9 +1,15 @@
 // hooks/useOpenAPIParser.ts
 import { useState, useEffect, useRef } from 'react';
-import kebabCase from 'lodash/kebabCase';
-import get from 'lodash/get';
-import SwaggerClient from 'swagger-client';
-import OpenAPIParser from '@readme/openapi-parser';
+import { failedParseResult, ParseProgress, ParseResult } from '@/lib/spec-parser';
+import { analyzeSpecText, SpecAnalysis } from '@/lib/spec-analysis';
+import { parseSpecWithCache } from '@/lib/parse-cache';
+import { attachSourceRanges, SourceRange } from '@/lib/source-map';
+import { CustomRuleset, loadCustomRulesets } from '@/lib/custom-rulesets';
+import { CustomRule, loadCustomRules, runCustomRules, runCustomRulesOnContent } from '@/lib/custom-rules';
+import { computeQualityReport } from '@/lib/quality';
+import type { OutlineNode } from '@/lib/outline';
+import { ErrorCause, ErrorCode, ErrorSuggestion, suggestionFor } from '@/lib/errors';
+import type { JsonObject } from '@/lib/spec-document';
 
 // Types
 export interface ApiSpec {
@@ -15,18 +21,40 @@ export interface ApiSpec {
     version: string;
     tags?: any[];
     favorite?: boolean;
+    // Lint ruleset applied to the spec, see lib/lint-rules
+    ruleset?: string;
 }
 
+export type EndpointKind = 'operation' | 'webhook' | 'callback';
+
 export interface Endpoint {
     id: string;
+    kind: EndpointKind;
+    operationId?: string;
     path: string;
     method: string;
     summary: string;
     description?: string;
     tags?: string[];
     parameters?: Parameter[];
-    requestBody?: any;
+    requestBody?: RequestBody;
     responses: Response[];
+    // Path-item level metadata shared by every operation on the path
+    pathSummary?: string;
+    pathDescription?: string;
+    // Operation servers, falling back to the path item's servers
+    servers?: Server[];
+    // Ids of the callback endpoints registered by this operation
+    callbacks?: string[];
+    // Callback entries only: the registering operation and the callback's name
+    parentId?: string;
+    callbackName?: string;
+}
+
+export interface Server {
+    url: string;
+    description?: string;
+    variables?: JsonObject;
 }
 
 export interface Parameter {
@@ -34,23 +62,76 @@ export interface Parameter {
     in: string;
     description?: string;
     required?: boolean;
+    deprecated?: boolean;
+    allowEmptyValue?: boolean;
+    // Primary type and format, read from the schema (or the first content entry)
     type: string;
     format?: string;
+    schema?: JsonObject;
+    // Serialization rules, with the OpenAPI defaults for the parameter location applied
+    style?: string;
+    explode?: boolean;
+    allowReserved?: boolean;
+    // Parameters described by a media type instead of a schema
+    content?: JsonObject;
+    example?: unknown;
+    examples?: JsonObject;
+}
+
+export interface MediaType {
+    mediaType: string;
+    schema: JsonObject | null;
+    example?: unknown;
+    examples?: JsonObject;
+    encoding?: JsonObject;
+}
+
+export interface RequestBody {
+    description?: string;
+    required: boolean;
+    // Every media type the body may be sent as, in declaration order
+    content: MediaType[];
 }
 
 export interface Response {
     statusCode: string;
     description: string;
+    // First declared media type, kept for consumers that show a single schema
     content?: any;
+    mediaTypes: MediaType[];
+    headers?: ResponseHeader[];
+    links?: ResponseLink[];
+}
+
+export interface ResponseHeader {
+    name: string;
+    description?: string;
+    required?: boolean;
+    deprecated?: boolean;
+    schema?: JsonObject;
+    example?: unknown;
+}
+
+export interface ResponseLink {
+    name: string;
+    description?: string;
+    operationId?: string;
+    operationRef?: string;
+    parameters?: Record<string, unknown>;
+    requestBody?: unknown;
+    // Id of the endpoint the link points at, when it can be found in this spec
+    targetId?: string;
 }
 
 export interface Node {
     id: string;
-    type: 'api' | 'endpoint' | 'response';
+    type: 'api' | 'endpoint' | 'webhook' | 'callback' | 'response';
     x: number;
     y: number;
     data: any;
     expanded?: boolean;
+    // Response nodes: id of the endpoint node they were expanded from
+    parentId?: string;
 }
 
 export interface Edge {
@@ -58,172 +139,63 @@ export interface Edge {
     source: string;
     target: string;
     type: string;
+    dashed?: boolean;
+    label?: string;
 }
 
 // Validation types
 export interface ValidationError {
     path?: string;
+    // JSON pointer and source location, filled in by lib/source-map when the text is available
+    pointer?: string;
+    range?: SourceRange;
+    // Meta-schema violations: the JSON schema keyword that failed and the value it expected
+    keyword?: string;
+    expected?: unknown;
+    // Lint results: id of the rule that reported the problem and the group it belongs to
+    rule?: string;
+    category?: string;
+    // What went wrong, the exception behind it and how to fix it, see lib/errors
+    code?: ErrorCode;
+    cause?: ErrorCause;
+    suggestion?: ErrorSuggestion;
     message: string;
-    severity: 'error' | 'warning';
+    severity: 'error' | 'warning' | 'info';
 }
 
-// Utilities
-export const contentResolver = (contentObj: any) => {
-    if (!contentObj || typeof contentObj !== 'object') {
-        return { type: '', schema: null };
-    }
-
-    const type = Object.keys(contentObj)[0] ?? '';
-    const schema = get(contentObj, `${type}.schema`, null);
-    return { type, schema };
-};
-
-export const resolveResponseContent = (content: any) => {
-    if (!content) return undefined;
-
-    // If it's already a processed content object, return it
-    if (content.type || content.schema) return content;
-
-    return contentResolver(content);
-};
-
-const methodDataMapper = ({ path, method, methodObj }: { path: string; method: string; methodObj: any }) => {
-    // Get method properties
-    const summary: string = get(methodObj, 'summary', '');
-    const description: string = get(methodObj, 'description', '');
-    const id: string = get(methodObj, 'operationId', '');
-    const tags = get(methodObj, 'tags', []);
-
-    // Get parameters
-    const parametersArr = get(methodObj, 'parameters', []);
-    const parameters = parametersArr.map((param: any) => ({
-        name: param.name || '',
-        in: param.in || '',
-        description: param.description || '',
-        required: param.required || false,
-        type: get(param, 'schema.type', get(param, 'type', 'string')),
-        format: get(param, 'schema.format', get(param, 'format', undefined))
-    }));
-
-    // Get requestBody if it exists
-    const requestBody = get(methodObj, 'requestBody', undefined);
-
-    // Get responses
-    const responsesObj = get(methodObj, 'responses', {});
-    const responses = Object.entries(responsesObj).map(([statusCode, responseObj]: [string, any]) => {
-        // Handle both string and object responses
-        if (typeof responseObj === 'string') {
-            return {
-                statusCode,
-                description: responseObj,
-                content: undefined
-            };
-        }
-
-        // Handle response object with proper content resolution
-        const contentObj = get(responseObj, 'content', {});
-        const content = resolveResponseContent(contentObj);
-
-        return {
-            statusCode,
-            description: get(responseObj, 'description', ''),
-            content
-        };
-    });
+// Parsing utilities live in lib/spec-parser so the parser worker can load them without React
+export {
+    contentResolver,
+    mediaTypesResolver,
+    resolveLinkTargets,
+    resolveResponseContent,
+    HTTP_METHODS,
+    mergeParameters,
+    parameterMapper,
+    validateSpecFormat
+} from '@/lib/spec-parser';
+
+// Messages exchanged with the spec parser worker
+export interface SpecParserRequest {
+    requestId: number;
+    spec: ApiSpec;
+    // Imported rulesets live in localStorage, which the worker cannot read
+    customRulesets?: CustomRuleset[];
+}
 
-    return {
-        id: id ? kebabCase(id) : `${method.toLowerCase()}-${path.replace(/\//g, '-').replace(/[{}]/g, '_')}`,
-        method: method.toUpperCase(),
-        path,
-        summary,
-        description,
-        tags,
-        parameters,
-        requestBody,
-        responses
-    };
-};
+export type SpecParserResponse =
+    | { requestId: number; type: 'progress'; progress: ParseProgress }
+    | { requestId: number; type: 'result'; result: ParseResult };
 
-    // Validation functions
-export const validateSpecFormat = (spec: any): ValidationError[] => {
-    const errors: ValidationError[] = [];
-    
-    if (!spec) {
-        errors.push({ 
-            message: 'Specification is empty or undefined', 
-            severity: 'error' 
-        });
-        return errors;
-    }
+const createSpecParserWorker = (): Worker | null => {
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
 
-    // Check for minimum required OpenAPI fields
-    if (!spec.openapi && !spec.swagger) {
-        errors.push({ 
-            message: 'Invalid API spec format: Missing OpenAPI/Swagger version identifier', 
-            severity: 'error'
-        });
-    } else {
-        // Check version compatibility
-        const version = spec.openapi || spec.swagger;
-        if (spec.openapi && !['3.0.0', '3.0.1', '3.0.2', '3.0.3', '3.1.0'].includes(version)) {
-            errors.push({ 
-                message: `OpenAPI version ${version} may not be fully supported. Recommended versions: 3.0.x or 3.1.0`, 
-                severity: 'warning'
-            });
-        } else if (spec.swagger && version !== '2.0') {
-            errors.push({ 
-                message: `Swagger version ${version} may not be fully supported. Recommended version: 2.0`, 
-                severity: 'warning'
-            });
-        }
+    try {
+        return new Worker(new URL('../workers/spec-parser.worker.ts', import.meta.url));
+    } catch (workerError) {
+        console.warn('Spec parser worker unavailable, parsing on the main thread:', workerError);
+        return null;
     }
-
-    if (!spec.info) {
-        errors.push({ 
-            message: 'Missing required "info" object in specification', 
-            severity: 'error'
-        });
-    } else {
-        if (!spec.info.title) {
-            errors.push({ 
-                path: 'info.title',
-                message: 'API specification is missing required title', 
-                severity: 'error'
-            });
-        }
-        
-        if (!spec.info.version) {
-            errors.push({ 
-                path: 'info.version',
-                message: 'API specification is missing version information', 
-                severity: 'error'
-            });
-        }
-    }
-
-    if (!spec.paths || Object.keys(spec.paths).length === 0) {
-        errors.push({ 
-            message: 'API specification contains no endpoints (empty paths object)', 
-            severity: 'warning'
-        });
-    } else {
-        // Check if paths have any operations
-        const hasOperations = Object.values(spec.paths).some((pathObj: any) => {
-            return Object.keys(pathObj).some(key => 
-                ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].includes(key.toLowerCase())
-            );
-        });
-        
-        if (!hasOperations) {
-            errors.push({ 
-                path: 'paths',
-                message: 'API specification contains paths but no HTTP operations (GET, POST, etc.)', 
-                severity: 'warning'
-            });
-        }
-    }
-
-    return errors;
 };
 
 // Main hook with enhanced validation
@@ -233,293 +205,343 @@ export const useSpecParser = (spec: ApiSpec | null) => {
     const [error, setError] = useState<string | null>(null);
     const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
     const [specVersion, setSpecVersion] = useState<string>('');
+    const [progress, setProgress] = useState<ParseProgress | null>(null);
+    const workerRef = useRef<Worker | null>(null);
+    const requestIdRef = useRef(0);
+
+    // Release the worker when the component using the hook unmounts
+    useEffect(() => () => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+    }, []);
 
     useEffect(() => {
+        // Any parse still running belongs to a previous selection
+        const requestId = ++requestIdRef.current;
+
         if (!spec) {
             setEndpoints([]);
             setError(null);
             setValidationErrors([]);
             setSpecVersion('');
+            setProgress(null);
+            setIsLoading(false);
             return;
         }
 
         setIsLoading(true);
         setError(null);
         setValidationErrors([]);
+        setProgress(null);
+
+        let finished = false;
+        const applyResult = (result: ParseResult) => {
+            if (requestId !== requestIdRef.current) return;
+            finished = true;
+
+            setEndpoints(result.endpoints);
+            setError(result.error);
+            setValidationErrors(result.validationErrors);
+            setSpecVersion(result.specVersion);
+            setProgress(null);
+            setIsLoading(false);
+
+            // User-authored rules run in their own sandbox and are never cached
+            runCustomRulesOnContent(spec.content, loadCustomRules()).then(customResults => {
+                if (requestId !== requestIdRef.current || customResults.length === 0) return;
+                setValidationErrors([...result.validationErrors, ...customResults]);
+            });
+        };
+        const applyProgress = (parseProgress: ParseProgress) => {
+            if (requestId === requestIdRef.current) setProgress(parseProgress);
+        };
+
+        const customRulesets = loadCustomRulesets().filter(ruleset => ruleset.id === spec.ruleset);
+
+        const parseOnMainThread = () => {
+            parseSpecWithCache(spec, applyProgress, customRulesets).catch(failedParseResult).then(applyResult);
+        };
 
-        const parseSwaggerSpec = async () => {
-            try {
-                // Initialize variables for content
-                let jsonContent;
-                let tempUrl = null;
-                
+        if (!workerRef.current) workerRef.current = createSpecParserWorker();
+        const worker = workerRef.current;
+        if (!worker) {
+            parseOnMainThread();
+            return;
+        }
+
+        const handleMessage = (event: MessageEvent<SpecParserResponse>) => {
+            if (event.data.requestId !== requestId) return;
+
+            if (event.data.type === 'progress') {
+                applyProgress(event.data.progress);
+            } else {
+                applyResult(event.data.result);
+            }
+        };
+        // If the worker itself fails to load or crashes, fall back to the main thread
+        const handleError = (event: ErrorEvent) => {
+            console.warn('Spec parser worker failed, parsing on the main thread:', event.message);
+            event.preventDefault();
+            worker.terminate();
+            if (workerRef.current === worker) workerRef.current = null;
+            if (!finished) parseOnMainThread();
+        };
+
+        worker.addEventListener('message', handleMessage);
+        worker.addEventListener('error', handleError);
+        worker.postMessage({ requestId, spec, customRulesets } as SpecParserRequest);
+
+        return () => {
+            worker.removeEventListener('message', handleMessage);
+            worker.removeEventListener('error', handleError);
+
+            // Cancel an unfinished parse by discarding the busy worker; a fresh one serves the next spec
+            if (!finished && workerRef.current === worker) {
+                worker.terminate();
+                workerRef.current = null;
+            }
+        };
+    }, [spec]);
+
+    return { endpoints, isLoading, error, validationErrors, specVersion, progress };
+};
+
+// Sends one request to the parser worker and waits for its result; rejects if the worker fails
+const requestParse = (worker: Worker, request: SpecParserRequest) => new Promise<ParseResult>((resolve, reject) => {
+    const handleMessage = (event: MessageEvent<SpecParserResponse>) => {
+        if (event.data.requestId !== request.requestId || event.data.type !== 'result') return;
+        release();
+        resolve(event.data.result);
+    };
+    const handleError = (event: ErrorEvent) => {
+        event.preventDefault();
+        release();
+        reject(new Error(event.message));
+    };
+    const release = () => {
+        worker.removeEventListener('message', handleMessage);
+        worker.removeEventListener('error', handleError);
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    worker.postMessage(request);
+});
+
+// Documentation quality score of every spec in a list, keyed by spec id; null when a spec could not be scored.
+// Specs are parsed one at a time in the parser worker, through the parse cache, and only rescored when they change.
+export const useQualityScores = (specs: ApiSpec[]) => {
+    const [scores, setScores] = useState<Record<string, number | null>>({});
+    const scoredVersionsRef = useRef<Record<string, number>>({});
+    const workerRef = useRef<Worker | null>(null);
+    const requestIdRef = useRef(0);
+
+    useEffect(() => () => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        const customRulesets = loadCustomRulesets();
+
+        const parse = async (spec: ApiSpec) => {
+            const request: SpecParserRequest = {
+                requestId: ++requestIdRef.current,
+                spec,
+                customRulesets: customRulesets.filter(ruleset => ruleset.id === spec.ruleset)
+            };
+
+            if (!workerRef.current) workerRef.current = createSpecParserWorker();
+            const worker = workerRef.current;
+            if (worker) {
                 try {
-                    // Handle parsing based on content type
-                    if (typeof spec.content === 'string') {
-                        // Since OpenAPIParser.parse expects a file path, we need to create a Blob URL
-                        try {
-                            // Create a Blob containing the specification content
-                            const specBlob = new Blob([spec.content], { 
-                                type: spec.format === 'yaml' ? 'application/yaml' : 'application/json' 
-                            });
-                            
-                            // Create a URL for the Blob
-                            tempUrl = URL.createObjectURL(specBlob);
-                            
-                            try {
-                                // Use OpenAPIParser.parse with the temporary URL
-                                jsonContent = await OpenAPIParser.parse(tempUrl);
-                            } catch (parserError) {
-                                console.warn('OpenAPIParser failed with Blob URL, trying direct parsing:', parserError);
-                                
-                                // Try direct parsing if OpenAPIParser fails with Blob URL
-                                if (spec.format === 'yaml' || spec.content.trim().startsWith('openapi:') || spec.content.trim().startsWith('swagger:')) {
-                                    // Try YAML
-                                    const jsyaml = await import('js-yaml');
-                                    jsonContent = jsyaml.load(spec.content);
-                                } else {
-                                    // Try JSON
-                                    jsonContent = JSON.parse(spec.content);
-                                }
-                            }
-                        } catch (blobError) {
-                            console.error('Error with Blob URL approach:', blobError);
-                            
-                            // Fallback: Try direct parsing if Blob approach fails
-                            try {
-                                // Try JSON parse first
-                                jsonContent = JSON.parse(spec.content);
-                            } catch (jsonError) {
-                                try {
-                                    // If JSON fails, try YAML
-                                    const jsyaml = await import('js-yaml');
-                                    jsonContent = jsyaml.load(spec.content);
-                                } catch (yamlError) {
-                                    throw new Error(`Failed to parse spec content: ${blobError.message || 'Invalid format'}`);
-                                }
-                            }
-                        }
-                    } else if (typeof spec.content === 'object' && spec.content !== null) {
-                        // If content is already an object, use it directly
-                        jsonContent = spec.content;
-                    } else {
-                        throw new Error('Invalid specification format - must be a string or object');
-                    }
-                    
-                    // Run basic schema validation
-                    const initialValidationErrors = validateSpecFormat(jsonContent);
-                    
-                    if (initialValidationErrors.some(err => err.severity === 'error')) {
-                        // If there are validation errors, set them but still try to parse
-                        setValidationErrors(initialValidationErrors);
-                    }
-                    
-                    // Determine spec version
-                    const version = jsonContent.openapi ? 
-                        `OpenAPI ${jsonContent.openapi}` : 
-                        (jsonContent.swagger ? `Swagger ${jsonContent.swagger}` : 'Unknown');
-                    setSpecVersion(version);
-                    
-                } catch (parseError: any) {
-                    console.error('Error in initial parsing:', parseError);
-                    setError(`Failed to parse API specification: ${parseError.message}`);
-                    setValidationErrors([{
-                        message: `Content parsing error: ${parseError.message}`,
-                        severity: 'error'
-                    }]);
-                    setEndpoints([]);
-                    setIsLoading(false);
-                    return;
-                } finally {
-                    // Clean up any temporary URL
-                    if (tempUrl) {
-                        URL.revokeObjectURL(tempUrl);
-                    }
+                    return await requestParse(worker, request);
+                } catch (workerError) {
+                    console.warn('Spec parser worker failed, scoring on the main thread:', workerError);
+                    worker.terminate();
+                    if (workerRef.current === worker) workerRef.current = null;
                 }
+            }
+            return parseSpecWithCache(spec, undefined, request.customRulesets);
+        };
 
-                // Try to resolve with Swagger Client
+        const scoreNext = async () => {
+            for (const spec of specs) {
+                if (cancelled) return;
+                if (scoredVersionsRef.current[spec.id] === spec.lastModified) continue;
+
+                // One spec that cannot be parsed must not stop the others from being scored
+                let score: number | null = null;
                 try {
-                    // Store original content size for potential error messages
-                    const contentSize = typeof jsonContent === 'string' 
-                        ? jsonContent.length 
-                        : JSON.stringify(jsonContent).length;
-                    
-                    const parsedSpec = await SwaggerClient.resolve({
-                        spec: jsonContent,
-                        allowMetaPatches: true,
-                        validateSchema: true,
-                        skipValidation: false
-                    });
+                    score = computeQualityReport((await parse(spec)).endpoints).score;
+                } catch (scoreError) {
+                    console.warn(`Failed to score spec ${spec.id}:`, scoreError);
+                }
+                if (cancelled) return;
 
-                    // Access the resolved and normalized spec
-                    const api = parsedSpec.spec;
+                scoredVersionsRef.current[spec.id] = spec.lastModified;
+                setScores(previous => ({ ...previous, [spec.id]: score }));
+            }
+        };
+        scoreNext();
 
-                    // Extract endpoints
-                    const extractedEndpoints: Endpoint[] = [];
+        return () => {
+            cancelled = true;
+        };
+    }, [specs]);
 
-                    // Get paths from the resolved spec
-                    const paths = get(api, 'paths', {});
+    return scores;
+};
 
-                    // Check if we actually got any paths
-                    if (Object.keys(paths).length === 0) {
-                        setValidationErrors(prev => [
-                            ...prev,
-                            { 
-                                message: 'API specification contains no paths or endpoints',
-                                severity: 'warning'
-                            }
-                        ]);
-                    }
+// Messages exchanged with the spec analysis worker, see lib/spec-analysis
+export interface SpecAnalysisRequest {
+    requestId: number;
+    text: string;
+    ruleset?: string;
+    customRulesets: CustomRuleset[];
+    customRules: CustomRule[];
+}
 
-                    // Process each path and method
-                    Object.entries(paths).forEach(([path, pathObj]: [string, any]) => {
-                        // Process HTTP methods
-                        const methods = ['get', 'post', 'put', 'delete', 'patch', 'options'];
-
-                        methods.forEach(method => {
-                            if (pathObj[method]) {
-                                try {
-                                    const endpoint = methodDataMapper({
-                                        path,
-                                        method,
-                                        methodObj: pathObj[method]
-                                    });
-                                    
-                                    extractedEndpoints.push(endpoint);
-                                } catch (methodError: any) {
-                                    console.warn(`Error mapping method ${method} for path ${path}:`, methodError);
-                                    
-                                    // Create more specific error message based on the issue
-                                    let errorMessage = `Error processing endpoint ${method.toUpperCase()} ${path}`;
-                                    
-                                    if (methodError.message) {
-                                        if (methodError.message.includes('parameters')) {
-                                            errorMessage = `Invalid parameters in ${method.toUpperCase()} ${path}`;
-                                        } else if (methodError.message.includes('responses')) {
-                                            errorMessage = `Invalid responses in ${method.toUpperCase()} ${path}`;
-                                        } else if (methodError.message.includes('requestBody')) {
-                                            errorMessage = `Invalid request body in ${method.toUpperCase()} ${path}`;
-                                        }
-                                    }
-                                    
-                                    setValidationErrors(prev => [
-                                        ...prev,
-                                        { 
-                                            path: `paths.${path}.${method}`,
-                                            message: errorMessage,
-                                            severity: 'warning'
-                                        }
-                                    ]);
-                                }
-                            }
-                        });
-                    });
+// Sent once the built-in checks are done, and again with the custom rule results added
+export type SpecAnalysisResponse = { requestId: number } & SpecAnalysis;
 
-                    setEndpoints(extractedEndpoints);
-                } catch (swaggerError: any) {
-                    console.error('Error parsing spec with Swagger Client:', swaggerError);
-                    
-                    // Extract meaningful error information without exposing the entire spec
-                    const errorMessage = swaggerError.message || 'Unknown error';
-                    
-                    // Sanitize error message to remove full spec details
-                    const sanitizedError = errorMessage
-                        .replace(/\{[^{}]*\}/g, '{...}') // Replace JSON objects
-                        .replace(/with value "[^"]{50,}"/g, 'with long value "[...]"'); // Replace long values
-                    
-                    // Provide detailed error messages based on error type
-                    if (errorMessage.includes('schema')) {
-                        // Extract specific schema validation issue
-                        const schemaMatch = errorMessage.match(/[\w.]+ (is|requires|must|should) [^.]+/);
-                        const specificError = schemaMatch ? schemaMatch[0] : 'Schema format is invalid';
-                        
-                        setError(`Schema validation failed: ${specificError}`);
-                        
-                        setValidationErrors(prev => [
-                            ...prev,
-                            {
-                                message: `Schema error: ${specificError}`,
-                                severity: 'error'
-                            }
-                        ]);
-                    } else if (errorMessage.includes('reference')) {
-                        // Extract specific reference
-                        const refMatch = errorMessage.match(/\$ref[^\s]+/);
-                        const reference = refMatch ? refMatch[0] : 'a reference';
-                        
-                        setError(`Invalid reference in specification: Could not resolve ${reference}`);
-                        
-                        setValidationErrors(prev => [
-                            ...prev,
-                            {
-                                message: `Reference error: Could not resolve ${reference}`,
-                                severity: 'error'
-                            }
-                        ]);
-                    } else if (errorMessage.includes('is not of a type')) {
-                        const typeMatch = errorMessage.match(/([\w.]+) is not of a type\(s\) ([\w,]+)/);
-                        if (typeMatch) {
-                            setError(`Type error: ${typeMatch[1]} should be ${typeMatch[2]}`);
-                        } else {
-                            setError(`Type error in specification: ${sanitizedError}`);
-                        }
-                    } else if (errorMessage.includes('required property')) {
-                        const propMatch = errorMessage.match(/missing required property ['"]([^'"]+)['"]/);
-                        if (propMatch) {
-                            setError(`Missing required property: '${propMatch[1]}'`);
-                        } else {
-                            setError(`Missing required property in specification`);
-                        }
-                    } else {
-                        setError(`Failed to parse specification: ${sanitizedError.substring(0, 200)}`);
-                    }
-                    
-                    setEndpoints([]);
-                }
-            } catch (generalError: any) {
-                console.error('Unexpected error during spec parsing:', generalError);
-                
-                // Create a user-friendly error message
-                let userMessage = 'Failed to process API specification';
-                
-                if (generalError.message) {
-                    // Extract the most relevant part of the error without including the spec
-                    const cleanedMessage = generalError.message
-                        .replace(/\{[\s\S]*?\}/g, '{...}') // Remove JSON objects
-                        .replace(/(spec|document|content): "[^"]{30,}"/g, '$1: "[...]"') // Remove long content
-                        .replace(/line \d+, column \d+/g, 'specific location'); // Keep location mentions generic
-                    
-                    // Limit error message length
-                    const briefMessage = cleanedMessage.length > 100 
-                        ? cleanedMessage.substring(0, 100) + '...' 
-                        : cleanedMessage;
-                    
-                    userMessage += `: ${briefMessage}`;
+export interface SpecAnalysisOptions {
+    ruleset?: string;
+    customRulesets?: CustomRuleset[];
+    customRules?: CustomRule[];
+    delay?: number;
+}
+
+const EMPTY_RULESETS: CustomRuleset[] = [];
+const EMPTY_RULES: CustomRule[] = [];
+
+const createSpecAnalysisWorker = (): Worker | null => {
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+
+    try {
+        return new Worker(new URL('../workers/spec-analysis.worker.ts', import.meta.url));
+    } catch (workerError) {
+        console.warn('Spec analysis worker unavailable, checking on the main thread:', workerError);
+        return null;
+    }
+};
+
+// Checks editor text as the user types: diagnostics with every error resolved to a source range, and the
+// outline. While the text has syntax errors the last good outline is kept, so the tree does not collapse
+// on every keystroke. The work runs in a worker that handles one request at a time; requests made while
+// it is busy are coalesced into the latest one.
+export const useSpecAnalysis = (
+    text: string,
+    { ruleset, customRulesets = EMPTY_RULESETS, customRules = EMPTY_RULES, delay = 300 }: SpecAnalysisOptions = {}
+) => {
+    const [diagnostics, setDiagnostics] = useState<ValidationError[]>([]);
+    const [outline, setOutline] = useState<OutlineNode[]>([]);
+    const workerRef = useRef<Worker | null>(null);
+    const requestIdRef = useRef(0);
+    // Request the worker is working on, and the one waiting for it
+    const inFlightRef = useRef<SpecAnalysisRequest | null>(null);
+    const pendingRef = useRef<SpecAnalysisRequest | null>(null);
+
+    const applyAnalysis = (response: SpecAnalysisResponse) => {
+        if (response.requestId !== requestIdRef.current) return;
+        setDiagnostics(response.diagnostics);
+        if (response.outline) setOutline(response.outline);
+    };
+
+    useEffect(() => () => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+    }, []);
+
+    useEffect(() => {
+        const requestId = ++requestIdRef.current;
+        pendingRef.current = null;
+
+        if (!text.trim()) {
+            setDiagnostics([]);
+            setOutline([]);
+            return;
+        }
+
+        const request: SpecAnalysisRequest = { requestId, text, ruleset, customRulesets, customRules };
+
+        // Without workers the checks run here, and custom rules are cancelled with the effect
+        const controller = new AbortController();
+        const analyzeOnMainThread = () => {
+            const analysis = analyzeSpecText(text, ruleset, customRulesets);
+            applyAnalysis({ requestId, ...analysis });
+
+            const { sourceMap } = analysis;
+            if (!sourceMap?.document || typeof sourceMap.document !== 'object') return;
+            runCustomRules(sourceMap.document, customRules, controller.signal).then(customResults => {
+                if (controller.signal.aborted || customResults.length === 0) return;
+                applyAnalysis({ ...analysis, requestId, diagnostics: [...analysis.diagnostics, ...attachSourceRanges(customResults, sourceMap)] });
+            });
+        };
+
+        const send = (worker: Worker, next: SpecAnalysisRequest) => {
+            inFlightRef.current = next;
+            worker.postMessage(next);
+        };
+
+        const startWorker = () => {
+            const worker = createSpecAnalysisWorker();
+            if (!worker) return null;
+
+            worker.addEventListener('message', (event: MessageEvent<SpecAnalysisResponse>) => {
+                applyAnalysis(event.data);
+                if (event.data.requestId !== inFlightRef.current?.requestId) return;
+
+                inFlightRef.current = null;
+                const next = pendingRef.current;
+                pendingRef.current = null;
+                if (next) send(worker, next);
+            });
+            // If the worker fails to load or crashes, the checks move to the main thread
+            worker.addEventListener('error', event => {
+                console.warn('Spec analysis worker failed, checking on the main thread:', event.message);
+                event.preventDefault();
+                worker.terminate();
+                if (workerRef.current === worker) workerRef.current = null;
+
+                // The latest request would otherwise go unanswered until the next edit
+                const lost = pendingRef.current ?? inFlightRef.current;
+                inFlightRef.current = null;
+                pendingRef.current = null;
+                if (lost) {
+                    const { diagnostics: lostDiagnostics, outline: lostOutline } = analyzeSpecText(lost.text, lost.ruleset, lost.customRulesets);
+                    applyAnalysis({ requestId: lost.requestId, diagnostics: lostDiagnostics, outline: lostOutline });
                 }
-                
-                setError(userMessage);
-                
-                // Add to validation errors
-                setValidationErrors(prev => [
-                    ...prev,
-                    {
-                        message: 'The API specification has errors that prevent it from being parsed correctly',
-                        severity: 'error'
-                    }
-                ]);
-                
-                setEndpoints([]);
-            } finally {
-                setIsLoading(false);
-            }
+            });
+            return worker;
         };
 
-        parseSwaggerSpec();
-    }, [spec]);
+        const timer = setTimeout(() => {
+            if (!workerRef.current) workerRef.current = startWorker();
+            const worker = workerRef.current;
+            if (!worker) {
+                analyzeOnMainThread();
+            } else if (inFlightRef.current === null) {
+                send(worker, request);
+            } else {
+                pendingRef.current = request;
+            }
+        }, delay);
 
-    return { endpoints, isLoading, error, validationErrors, specVersion };
+        return () => {
+            controller.abort();
+            clearTimeout(timer);
+        };
+    }, [text, ruleset, customRulesets, customRules, delay]);
+
+    return { diagnostics, outline };
 };
 
+// Endpoint, webhook and callback nodes all expand into their responses
+export const isOperationNode = (node: Node) =>
+    node.type === 'endpoint' || node.type === 'webhook' || node.type === 'callback';
+
 // Hook for graph visualization
 export const useGraphVisualization = (endpoints: Endpoint[], apiName: string, apiVersion: string) => {
     const [nodes, setNodes] = useState<Node[]>([]);
@@ -565,14 +587,18 @@ export const useGraphVisualization = (endpoints: Endpoint[], apiName: string, ap
             };
         };
 
+        // Operations and webhooks hang off the API root; callbacks hang off their operation
+        const topLevelEndpoints = endpoints.filter(endpoint => endpoint.kind !== 'callback');
+        const callbackEndpoints = endpoints.filter(endpoint => endpoint.kind === 'callback');
+
         // Create nodes for each endpoint
-        endpoints.forEach((endpoint, index) => {
-            const position = calculatePosition(index, endpoints.length);
+        topLevelEndpoints.forEach((endpoint, index) => {
+            const position = calculatePosition(index, topLevelEndpoints.length);
             const endpointNodeId = `endpoint-${endpoint.id}`;
 
             newNodes.push({
                 id: endpointNodeId,
-                type: 'endpoint',
+                type: endpoint.kind === 'webhook' ? 'webhook' : 'endpoint',
                 x: position.x,
                 y: position.y,
                 data: {
@@ -580,7 +606,8 @@ export const useGraphVisualization = (endpoints: Endpoint[], apiName: string, ap
                     method: endpoint.method,
                     summary: endpoint.summary,
                     description: endpoint.description,
-                    responses: endpoint.responses
+                    responses: endpoint.responses,
+                    callbacks: endpoint.callbacks
                 },
                 expanded: false
             });
@@ -594,6 +621,58 @@ export const useGraphVisualization = (endpoints: Endpoint[], apiName: string, ap
             });
         });
 
+        // Place callbacks to the side of the operation that registers them
+        const callbackCounts: Record<string, number> = {};
+        callbackEndpoints.forEach(endpoint => {
+            const parentNodeId = `endpoint-${endpoint.parentId}`;
+            const parentNode = newNodes.find(n => n.id === parentNodeId);
+            const slot = callbackCounts[parentNodeId] ?? 0;
+            callbackCounts[parentNodeId] = slot + 1;
+
+            const endpointNodeId = `endpoint-${endpoint.id}`;
+            newNodes.push({
+                id: endpointNodeId,
+                type: 'callback',
+                x: (parentNode?.x ?? 400) + 280,
+                y: (parentNode?.y ?? 300) + slot * 120,
+                data: {
+                    label: endpoint.path,
+                    method: endpoint.method,
+                    summary: endpoint.summary,
+                    description: endpoint.description,
+                    responses: endpoint.responses,
+                    callbackName: endpoint.callbackName
+                },
+                expanded: false
+            });
+
+            newEdges.push({
+                id: `edge-callback-${endpoint.id}`,
+                source: parentNodeId,
+                target: endpointNodeId,
+                type: 'straight',
+                dashed: true
+            });
+        });
+
+        // Draw response links between the endpoints they connect
+        endpoints.forEach(endpoint => {
+            endpoint.responses.forEach(response => {
+                response.links?.forEach(link => {
+                    if (!link.targetId) return;
+
+                    newEdges.push({
+                        id: `edge-link-${endpoint.id}-${response.statusCode}-${link.name}`,
+                        source: `endpoint-${endpoint.id}`,
+                        target: `endpoint-${link.targetId}`,
+                        type: 'link',
+                        dashed: true,
+                        label: link.name
+                    });
+                });
+            });
+        });
+
         setNodes(newNodes);
         setEdges(newEdges);
     }, [endpoints, apiName, apiVersion]);
@@ -602,7 +681,7 @@ export const useGraphVisualization = (endpoints: Endpoint[], apiName: string, ap
     const toggleNodeExpansion = (nodeId: string) => {
         // Find the node
         const node = nodes.find(n => n.id === nodeId);
-        if (!node || node.type !== 'endpoint') return;
+        if (!node || !isOperationNode(node)) return;
 
         // Update expanded state
         setNodes(prev =>
@@ -634,12 +713,16 @@ export const useGraphVisualization = (endpoints: Endpoint[], apiName: string, ap
                 responseNodes.push({
                     id: responseNodeId,
                     type: 'response',
+                    parentId: nodeId,
                     x: node.x,
                     y: node.y + 120 + (index * 80),
                     data: {
                         statusCode: response.statusCode,
                         description: response.description,
-                        content: response.content
+                        content: response.content,
+                        mediaTypes: response.mediaTypes,
+                        headers: response.headers,
+                        links: response.links
                     }
                 });
 
@@ -656,17 +739,18 @@ export const useGraphVisualization = (endpoints: Endpoint[], apiName: string, ap
             setNodes(prev => [...prev, ...responseNodes]);
             setEdges(prev => [...prev, ...responseEdges]);
         } else {
-            // If collapsing, remove response nodes and edges
-            const endpointId = nodeId.replace('endpoint-', '');
+            // If collapsing, remove response nodes and edges. Ids of other endpoints can start with this
+            // endpoint's id (callbacks, numbered duplicates), so responses are matched by their parent.
+            const responseIds = new Set(nodes.filter(n => n.parentId === nodeId).map(n => n.id));
 
             // Remove response nodes
             setNodes(prev =>
-                prev.filter(n => !n.id.startsWith(`response-${endpointId}`))
+                prev.filter(n => n.parentId !== nodeId)
             );
 
             // Remove response edges
             setEdges(prev =>
-                prev.filter(e => !e.id.startsWith(`edge-${nodeId}`))
+                prev.filter(e => !(e.source === nodeId && responseIds.has(e.target)))
             );
         }
     };
@@ -778,6 +862,8 @@ export const getMethodColor = (method: string) => {
         case 'PUT': return 'bg-yellow-600';
         case 'DELETE': return 'bg-red-600';
         case 'PATCH': return 'bg-purple-600';
+        case 'HEAD': return 'bg-cyan-700';
+        case 'TRACE': return 'bg-pink-700';
         default: return 'bg-gray-600';
     }
 };
@@ -792,7 +878,8 @@ export const getStatusColor = (statusCode: string) => {
 };
 
 // Additional utility for getting validation error severity class
-export const getValidationSeverityClass = (severity: 'error' | 'warning') => {
+export const getValidationSeverityClass = (severity: ValidationError['severity']) => {
+    if (severity === 'info') return 'text-sky-400';
     return severity === 'error' ? 'text-red-500' : 'text-yellow-500';
 };
 
@@ -816,33 +903,6 @@ export const formatValidationErrors = (errors: ValidationError[]): string => {
     return `Your API specification has ${summary}. Please fix ${errorCount > 0 ? 'errors' : 'issues'} to ensure proper visualization.`;
 };
 
-// Helper function to get human-readable suggestions for common errors
-export const getErrorSuggestion = (error: ValidationError): string | null => {
-    const message = error.message.toLowerCase();
-    
-    if (message.includes('openapi') || message.includes('swagger')) {
-        return 'Add the OpenAPI/Swagger version identifier at the root of your specification.';
-    }
-    
-    if (message.includes('title') || message.includes('info object')) {
-        return 'Add the required "info" object with "title" and "version" properties.';
-    }
-    
-    if (message.includes('reference')) {
-        return 'Check that all references ($ref) in your specification point to valid objects.';
-    }
-    
-    if (message.includes('no paths') || message.includes('no endpoints')) {
-        return 'Add at least one path with HTTP methods to your specification.';
-    }
-    
-    if (message.includes('schema')) {
-        return 'Verify that your schema definitions match the OpenAPI specification format.';
-    }
-    
-    if (message.includes('blob') || message.includes('url')) {
-        return 'Your browser may be restricting access to the Blob URL. Try importing a local file instead.';
-    }
-    
-    return null;
-};
\ No newline at end of file
+// Suggestion for an error, from the error itself or from its code
+export const getErrorSuggestion = (error: ValidationError): string | null =>
+    error.suggestion?.message ?? suggestionFor(error.code)?.message ?? null;
\ No newline at end of file
@@ -0,0 +1,579 @@
+// lib/completions.ts
+import yaml from 'js-yaml';
+import { CursorContext, getCursorContext } from '@/lib/cursor-context';
+import { segmentsToPointer } from '@/lib/source-map';
+import { asArray, asObject, asString, valueAt } from '@/lib/spec-document';
+import { HTTP_METHODS } from '@/lib/spec-parser';
+
+// OpenAPI-aware completions for the spec editor: the fields of the object under the cursor, values of
+// enumerated fields, $ref targets from the document's components, and snippets for common structures.
+
+export interface CompletionEntry {
+    label: string;
+    kind: 'property' | 'value' | 'reference' | 'snippet';
+    // Monaco snippet syntax when `isSnippet` is set, plain text otherwise
+    insertText: string;
+    isSnippet: boolean;
+    filterText?: string;
+    sortText?: string;
+    detail?: string;
+    documentation?: string;
+}
+
+export interface CompletionResult {
+    context: CursorContext;
+    entries: CompletionEntry[];
+}
+
+type Format = 'yaml' | 'json';
+
+// Field types name another shape, a scalar ('string', 'number', 'boolean', 'any'),
+// a list ('Server[]') or a map with arbitrary keys ('Map<Response>')
+interface Shape {
+    fields: Record<string, string>;
+    // Type of the keys that are not fixed fields, e.g. the paths under Paths
+    patterned?: string;
+}
+
+const operationsOf = (methods: string[], type: string) => Object.fromEntries(methods.map(method => [method, type]));
+
+const SCHEMA_FIELDS: Record<string, string> = {
+    $ref: 'string', title: 'string', description: 'string', type: 'string', format: 'string',
+    enum: 'any[]', const: 'any', default: 'any', nullable: 'boolean', readOnly: 'boolean', writeOnly: 'boolean',
+    deprecated: 'boolean', example: 'any', examples: 'any[]',
+    properties: 'Map<Schema>', additionalProperties: 'Schema', required: 'string[]', items: 'Schema',
+    allOf: 'Schema[]', anyOf: 'Schema[]', oneOf: 'Schema[]', not: 'Schema', discriminator: 'Discriminator',
+    minimum: 'number', maximum: 'number', exclusiveMinimum: 'number', exclusiveMaximum: 'number', multipleOf: 'number',
+    minLength: 'number', maxLength: 'number', pattern: 'string', minItems: 'number', maxItems: 'number',
+    uniqueItems: 'boolean', minProperties: 'number', maxProperties: 'number', externalDocs: 'ExternalDocs', xml: 'XML'
+};
+
+const SHAPES: Record<string, Shape> = {
+    // OpenAPI 3.x
+    Document: {
+        fields: {
+            openapi: 'string', info: 'Info', jsonSchemaDialect: 'string', servers: 'Server[]', paths: 'Paths',
+            webhooks: 'Map<PathItem>', components: 'Components', security: 'SecurityRequirement[]', tags: 'Tag[]',
+            externalDocs: 'ExternalDocs'
+        }
+    },
+    Info: {
+        fields: {
+            title: 'string', summary: 'string', description: 'string', termsOfService: 'string',
+            contact: 'Contact', license: 'License', version: 'string'
+        }
+    },
+    Contact: { fields: { name: 'string', url: 'string', email: 'string' } },
+    License: { fields: { name: 'string', identifier: 'string', url: 'string' } },
+    Server: { fields: { url: 'string', description: 'string', variables: 'Map<ServerVariable>' } },
+    ServerVariable: { fields: { enum: 'string[]', default: 'string', description: 'string' } },
+    Paths: { fields: {}, patterned: 'PathItem' },
+    PathItem: {
+        fields: {
+            $ref: 'string', summary: 'string', description: 'string', ...operationsOf(HTTP_METHODS, 'Operation'),
+            servers: 'Server[]', parameters: 'Parameter[]'
+        }
+    },
+    Operation: {
+        fields: {
+            tags: 'string[]', summary: 'string', description: 'string', externalDocs: 'ExternalDocs',
+            operationId: 'string', parameters: 'Parameter[]', requestBody: 'RequestBody', responses: 'Responses',
+            callbacks: 'Map<Callback>', deprecated: 'boolean', security: 'SecurityRequirement[]', servers: 'Server[]'
+        }
+    },
+    Callback: { fields: {}, patterned: 'PathItem' },
+    Parameter: {
+        fields: {
+            $ref: 'string', name: 'string', in: 'string', description: 'string', required: 'boolean',
+            deprecated: 'boolean', allowEmptyValue: 'boolean', style: 'string', explode: 'boolean',
+            allowReserved: 'boolean', schema: 'Schema', example: 'any', examples: 'Map<Example>', content: 'Map<MediaType>'
+        }
+    },
+    RequestBody: { fields: { $ref: 'string', description: 'string', content: 'Map<MediaType>', required: 'boolean' } },
+    MediaType: { fields: { schema: 'Schema', example: 'any', examples: 'Map<Example>', encoding: 'Map<Encoding>' } },
+    Encoding: {
+        fields: { contentType: 'string', headers: 'Map<Header>', style: 'string', explode: 'boolean', allowReserved: 'boolean' }
+    },
+    Responses: { fields: {}, patterned: 'Response' },
+    Response: {
+        fields: { $ref: 'string', description: 'string', headers: 'Map<Header>', content: 'Map<MediaType>', links: 'Map<Link>' }
+    },
+    Header: {
+        fields: {
+            $ref: 'string', description: 'string', required: 'boolean', deprecated: 'boolean', style: 'string',
+            explode: 'boolean', schema: 'Schema', example: 'any', examples: 'Map<Example>', content: 'Map<MediaType>'
+        }
+    },
+    Link: {
+        fields: {
+            $ref: 'string', operationRef: 'string', operationId: 'string', parameters: 'Map<any>',
+            requestBody: 'any', description: 'string', server: 'Server'
+        }
+    },
+    Example: { fields: { $ref: 'string', summary: 'string', description: 'string', value: 'any', externalValue: 'string' } },
+    Tag: { fields: { name: 'string', description: 'string', externalDocs: 'ExternalDocs' } },
+    ExternalDocs: { fields: { description: 'string', url: 'string' } },
+    Components: {
+        fields: {
+            schemas: 'Map<Schema>', responses: 'Map<Response>', parameters: 'Map<Parameter>', examples: 'Map<Example>',
+            requestBodies: 'Map<RequestBody>', headers: 'Map<Header>', securitySchemes: 'Map<SecurityScheme>',
+            links: 'Map<Link>', callbacks: 'Map<Callback>', pathItems: 'Map<PathItem>'
+        }
+    },
+    SecurityScheme: {
+        fields: {
+            $ref: 'string', type: 'string', description: 'string', name: 'string', in: 'string', scheme: 'string',
+            bearerFormat: 'string', flows: 'OAuthFlows', openIdConnectUrl: 'string'
+        }
+    },
+    OAuthFlows: {
+        fields: { implicit: 'OAuthFlow', password: 'OAuthFlow', clientCredentials: 'OAuthFlow', authorizationCode: 'OAuthFlow' }
+    },
+    OAuthFlow: { fields: { authorizationUrl: 'string', tokenUrl: 'string', refreshUrl: 'string', scopes: 'Map<string>' } },
+    // Keys are security scheme names
+    SecurityRequirement: { fields: {}, patterned: 'string[]' },
+    Schema: { fields: SCHEMA_FIELDS },
+    Discriminator: { fields: { propertyName: 'string', mapping: 'Map<string>' } },
+    XML: { fields: { name: 'string', namespace: 'string', prefix: 'string', attribute: 'boolean', wrapped: 'boolean' } },
+
+    // Swagger 2.0
+    Swagger2: {
+        fields: {
+            swagger: 'string', info: 'Info', host: 'string', basePath: 'string', schemes: 'string[]',
+            consumes: 'string[]', produces: 'string[]', paths: 'Paths2', definitions: 'Map<Schema>',
+            parameters: 'Map<Parameter2>', responses: 'Map<Response2>', securityDefinitions: 'Map<SecurityScheme2>',
+            security: 'SecurityRequirement[]', tags: 'Tag[]', externalDocs: 'ExternalDocs'
+        }
+    },
+    Paths2: { fields: {}, patterned: 'PathItem2' },
+    PathItem2: {
+        fields: {
+            $ref: 'string', ...operationsOf(HTTP_METHODS.filter(method => method !== 'trace'), 'Operation2'),
+            parameters: 'Parameter2[]'
+        }
+    },
+    Operation2: {
+        fields: {
+            tags: 'string[]', summary: 'string', description: 'string', externalDocs: 'ExternalDocs',
+            operationId: 'string', consumes: 'string[]', produces: 'string[]', parameters: 'Parameter2[]',
+            responses: 'Responses2', schemes: 'string[]', deprecated: 'boolean', security: 'SecurityRequirement[]'
+        }
+    },
+    Parameter2: {
+        fields: {
+            $ref: 'string', name: 'string', in: 'string', description: 'string', required: 'boolean', schema: 'Schema',
+            type: 'string', format: 'string', allowEmptyValue: 'boolean', items: 'Schema', collectionFormat: 'string',
+            default: 'any', enum: 'any[]'
+        }
+    },
+    Responses2: { fields: {}, patterned: 'Response2' },
+    Response2: { fields: { $ref: 'string', description: 'string', schema: 'Schema', headers: 'Map<Schema>', examples: 'Map<any>' } },
+    SecurityScheme2: {
+        fields: {
+            type: 'string', description: 'string', name: 'string', in: 'string', flow: 'string',
+            authorizationUrl: 'string', tokenUrl: 'string', scopes: 'Map<string>'
+        }
+    }
+};
+
+const MEDIA_TYPES = [
+    'application/json',
+    'application/xml',
+    'application/x-www-form-urlencoded',
+    'multipart/form-data',
+    'text/plain',
+    'application/octet-stream'
+];
+
+const STATUS_CODES: Record<string, string> = {
+    '200': 'OK', '201': 'Created', '202': 'Accepted', '204': 'No Content',
+    '301': 'Moved Permanently', '304': 'Not Modified',
+    '400': 'Bad Request', '401': 'Unauthorized', '403': 'Forbidden', '404': 'Not Found', '409': 'Conflict',
+    '422': 'Unprocessable Entity', '429': 'Too Many Requests',
+    '500': 'Internal Server Error', '503': 'Service Unavailable',
+    default: 'Unexpected error'
+};
+
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'null'];
+const SCHEMA_FORMATS = ['int32', 'int64', 'float', 'double', 'byte', 'binary', 'date', 'date-time', 'password', 'email', 'uuid', 'uri', 'hostname', 'ipv4', 'ipv6'];
+
+const tagNames = (document: unknown) =>
+    asArray(valueAt(document, ['tags'])).flatMap(tag => asString(asObject(tag).name) || []);
+
+// Values of enumerated fields, by 'Shape.field'. Functions read them from the document.
+const FIELD_VALUES: Record<string, string[] | ((document: unknown, objectSegments: string[]) => string[])> = {
+    'Document.openapi': ['3.1.0', '3.0.3'],
+    'Swagger2.swagger': ['2.0'],
+    'Swagger2.schemes': ['https', 'http', 'ws', 'wss'],
+    'Swagger2.consumes': MEDIA_TYPES,
+    'Swagger2.produces': MEDIA_TYPES,
+    'Operation.tags': tagNames,
+    'Operation2.tags': tagNames,
+    'Operation2.consumes': MEDIA_TYPES,
+    'Operation2.produces': MEDIA_TYPES,
+    'Operation2.schemes': ['https', 'http', 'ws', 'wss'],
+    'Parameter.in': ['query', 'header', 'path', 'cookie'],
+    'Parameter.style': ['form', 'simple', 'matrix', 'label', 'spaceDelimited', 'pipeDelimited', 'deepObject'],
+    'Parameter2.in': ['query', 'header', 'path', 'formData', 'body'],
+    'Parameter2.type': SCHEMA_TYPES.filter(type => type !== 'null').concat('file'),
+    'Parameter2.format': SCHEMA_FORMATS,
+    'Parameter2.collectionFormat': ['csv', 'ssv', 'tsv', 'pipes', 'multi'],
+    'Header.style': ['simple'],
+    'Encoding.contentType': MEDIA_TYPES,
+    'Schema.type': SCHEMA_TYPES,
+    'Schema.format': SCHEMA_FORMATS,
+    // The schema's own properties
+    'Schema.required': (document, objectSegments) => Object.keys(asObject(valueAt(document, [...objectSegments, 'properties']))),
+    'Discriminator.propertyName': (document, objectSegments) =>
+        Object.keys(asObject(valueAt(document, [...objectSegments.slice(0, -1), 'properties']))),
+    'SecurityScheme.type': ['apiKey', 'http', 'oauth2', 'openIdConnect', 'mutualTLS'],
+    'SecurityScheme.in': ['query', 'header', 'cookie'],
+    'SecurityScheme.scheme': ['bearer', 'basic'],
+    'SecurityScheme2.type': ['basic', 'apiKey', 'oauth2'],
+    'SecurityScheme2.in': ['query', 'header'],
+    'SecurityScheme2.flow': ['implicit', 'password', 'application', 'accessCode']
+};
+
+// Where $refs from each kind of object may point, in OpenAPI 3.x and Swagger 2.0 documents
+const REF_SECTIONS: Record<string, string[][]> = {
+    Schema: [['components', 'schemas'], ['definitions']],
+    Parameter: [['components', 'parameters']],
+    Parameter2: [['parameters']],
+    RequestBody: [['components', 'requestBodies']],
+    Response: [['components', 'responses']],
+    Response2: [['responses']],
+    Header: [['components', 'headers']],
+    Example: [['components', 'examples']],
+    Link: [['components', 'links']],
+    PathItem: [['components', 'pathItems']],
+    SecurityScheme: [['components', 'securitySchemes']]
+};
+
+// Snippets are written as data, with Monaco placeholders in keys and values, and rendered in the editor's format
+type SnippetValue = string | boolean | string[] | { [key: string]: SnippetValue };
+
+interface Snippet {
+    label: string;
+    documentation: string;
+    body: Record<string, SnippetValue>;
+}
+
+const operationSnippet = (summary: string): Record<string, SnippetValue> => ({
+    summary: `\${1:${summary}}`,
+    operationId: '${2:operationId}',
+    responses: { '200': { description: '${3:OK}' } }
+});
+
+// Offered inside an object of the given type that is still empty
+const SHAPE_SNIPPETS: Record<string, Snippet[]> = {
+    Paths: [{
+        label: 'path',
+        documentation: 'A path with a GET operation',
+        body: { '/${1:resources}': { get: operationSnippet('List resources') } }
+    }],
+    Paths2: [{
+        label: 'path',
+        documentation: 'A path with a GET operation',
+        body: { '/${1:resources}': { get: operationSnippet('List resources') } }
+    }],
+    Parameter: [
+        {
+            label: 'query parameter',
+            documentation: 'An optional query parameter',
+            body: { name: '${1:name}', in: 'query', description: '${2}', required: false, schema: { type: '${3:string}' } }
+        },
+        {
+            label: 'path parameter',
+            documentation: 'A required path parameter',
+            body: { name: '${1:id}', in: 'path', description: '${2}', required: true, schema: { type: '${3:string}' } }
+        }
+    ],
+    Schema: [
+        {
+            label: 'object schema',
+            documentation: 'An object with properties',
+            body: { type: 'object', required: ['${1:id}'], properties: { '${1:id}': { type: '${2:string}' } } }
+        },
+        {
+            label: 'array schema',
+            documentation: 'An array of referenced items',
+            body: { type: 'array', items: { $ref: '${1:#/components/schemas/Item}' } }
+        },
+        {
+            label: 'string enum',
+            documentation: 'A string restricted to a set of values',
+            body: { type: 'string', enum: ['${1:first}', '${2:second}'] }
+        }
+    ],
+    Response: [{
+        label: 'JSON response',
+        documentation: 'A response with a JSON body',
+        body: { description: '${1:OK}', content: { 'application/json': { schema: { $ref: '${2:#/components/schemas/Item}' } } } }
+    }]
+};
+
+// Offered for a new key of a map whose values have the given type
+const MAP_SNIPPETS: Record<string, Snippet[]> = {
+    Schema: [{
+        label: 'object schema',
+        documentation: 'A named object schema',
+        body: { '${1:Name}': { type: 'object', properties: { '${2:id}': { type: '${3:string}' } } } }
+    }],
+    SecurityScheme: [
+        {
+            label: 'bearer authentication',
+            documentation: 'HTTP bearer tokens, e.g. JWTs',
+            body: { '${1:bearerAuth}': { type: 'http', scheme: 'bearer', bearerFormat: '${2:JWT}' } }
+        },
+        {
+            label: 'API key',
+            documentation: 'An API key sent in a header',
+            body: { '${1:apiKey}': { type: 'apiKey', in: 'header', name: '${2:X-API-Key}' } }
+        }
+    ]
+};
+
+const isList = (type: string) => type.endsWith('[]');
+const isMap = (type: string) => type.startsWith('Map<');
+const isObjectType = (type: string) => isMap(type) || type in SHAPES;
+const elementOf = (type: string) => (isList(type) ? type.slice(0, -2) : type.slice(4, -1));
+
+// Type of the node at `segments`, or null where the structure is unknown
+const resolveType = (root: string, segments: string[]): string | null => {
+    let type: string | null = root;
+    for (const segment of segments) {
+        if (!type) return null;
+        if (isList(type)) {
+            type = /^\d+$/.test(segment) ? elementOf(type) : null;
+        } else if (isMap(type)) {
+            type = elementOf(type);
+        } else if (SHAPES[type]) {
+            const shape: Shape = SHAPES[type];
+            type = shape.fields[segment] ?? (segment.startsWith('x-') ? 'any' : shape.patterned ?? null);
+        } else {
+            return null;
+        }
+    }
+    return type;
+};
+
+// Monaco snippet syntax treats $, } and \ specially
+const escapeSnippet = (text: string) => text.replace(/[\\$}]/g, '\\$&');
+
+// Keys YAML would read as numbers, or that start with a YAML indicator, are quoted
+const yamlKey = (key: string) => (/^(\d+|[-?:,[\]{}#&*!|>'"%@`].*)$/.test(key) ? `'${key}'` : key);
+
+const renderYaml = (entries: Record<string, SnippetValue>, depth: number): string => {
+    const indent = '\t'.repeat(depth);
+    return Object.entries(entries).map(([key, value]) => {
+        if (Array.isArray(value) && value.length === 0) return `${indent}${yamlKey(key)}: []`;
+        if (Array.isArray(value)) {
+            return `${indent}${yamlKey(key)}:\n${value.map(item => `${indent}\t- ${item}`).join('\n')}`;
+        }
+        if (typeof value === 'object') {
+            return `${indent}${yamlKey(key)}:\n${renderYaml(value, depth + 1)}`;
+        }
+        // '#' would start a comment
+        const text = typeof value === 'string' && value.includes('#') ? `'${value}'` : String(value);
+        return `${indent}${yamlKey(key)}: ${text}`;
+    }).join('\n');
+};
+
+const renderJsonValue = (value: SnippetValue, depth: number): string => {
+    if (Array.isArray(value)) return `[${value.map(item => `"${item}"`).join(', ')}]`;
+    if (typeof value === 'object') return `{\n${renderJson(value, depth + 1)}\n${'\t'.repeat(depth)}}`;
+    return typeof value === 'string' ? `"${value}"` : String(value);
+};
+
+const renderJson = (entries: Record<string, SnippetValue>, depth: number): string =>
+    Object.entries(entries)
+        .map(([key, value]) => `${'\t'.repeat(depth)}"${key}": ${renderJsonValue(value, depth)}`)
+        .join(',\n');
+
+// Snippet bodies keep `$ref` readable; it is escaped here along with the rest of the literal keys
+const renderSnippet = (body: Record<string, SnippetValue>, format: Format) => {
+    const escaped = JSON.parse(JSON.stringify(body).replace(/"\$ref"/g, '"\\\\$ref"'));
+    return format === 'json' ? renderJson(escaped, 0) : renderYaml(escaped, 0);
+};
+
+const filterTextFor = (text: string, context: CursorContext) => (context.quote ? `${context.quote}${text}` : text);
+
+const snippetEntries = (snippets: Snippet[], context: CursorContext, format: Format): CompletionEntry[] =>
+    snippets.map(snippet => ({
+        label: snippet.label,
+        kind: 'snippet',
+        insertText: renderSnippet(snippet.body, format),
+        isSnippet: true,
+        filterText: filterTextFor(snippet.label, context),
+        sortText: `2${snippet.label}`,
+        documentation: snippet.documentation
+    }));
+
+const choicesFor = (shapeName: string, field: string, fieldType: string) => {
+    const values = FIELD_VALUES[`${shapeName}.${field}`];
+    if (Array.isArray(values)) return values;
+    return fieldType === 'boolean' ? ['true', 'false'] : null;
+};
+
+// Inserts a field with an empty value of its type, or a choice of its values
+const fieldInsertText = (shapeName: string, field: string, fieldType: string, format: Format) => {
+    const key = escapeSnippet(field);
+    const choices = choicesFor(shapeName, field, fieldType);
+    const quoteChoices = format === 'json' && fieldType !== 'boolean';
+
+    if (format === 'yaml') {
+        if (choices && !isList(fieldType)) return `${key}: \${1|${choices.join(',')}|}`;
+        if (isList(fieldType)) return `${key}:\n\t- $0`;
+        if (isObjectType(fieldType)) return `${key}:\n\t$0`;
+        return `${key}: $0`;
+    }
+
+    if (choices && !isList(fieldType)) {
+        return quoteChoices ? `"${key}": "\${1|${choices.join(',')}|}"` : `"${key}": \${1|${choices.join(',')}|}`;
+    }
+    if (isList(fieldType)) return `"${key}": [\n\t$0\n]`;
+    if (isObjectType(fieldType)) return `"${key}": {\n\t$0\n}`;
+    return fieldType === 'string' ? `"${key}": "$0"` : `"${key}": $0`;
+};
+
+const fieldEntries = (shapeName: string, context: CursorContext, format: Format): CompletionEntry[] =>
+    Object.entries(SHAPES[shapeName].fields)
+        .filter(([field]) => !context.existingKeys.includes(field))
+        .map(([field, fieldType], index) => {
+            // Operations come with a minimal skeleton
+            const operation = fieldType === 'Operation' || fieldType === 'Operation2';
+            return {
+                label: field,
+                kind: 'property' as const,
+                insertText: operation
+                    ? renderSnippet({ [field]: operationSnippet(`${field.toUpperCase()} operation`) }, format)
+                    : fieldInsertText(shapeName, field, fieldType, format),
+                isSnippet: true,
+                filterText: filterTextFor(field, context),
+                sortText: `0${String(index).padStart(3, '0')}`,
+                detail: fieldType
+            };
+        });
+
+// Suggested keys for objects whose keys are not fixed: status codes, media types, security scheme names
+const patternedEntries = (type: string, document: unknown, context: CursorContext, format: Format): CompletionEntry[] => {
+    const keyEntry = (key: string, body: Record<string, SnippetValue>, detail: string, sortText: string): CompletionEntry => ({
+        label: key,
+        kind: 'property',
+        insertText: renderSnippet(body, format),
+        isSnippet: true,
+        filterText: filterTextFor(format === 'yaml' ? yamlKey(key) : key, context),
+        sortText,
+        detail
+    });
+    const unused = (keys: string[]) => keys.filter(key => !context.existingKeys.includes(key));
+
+    if (type === 'Responses' || type === 'Responses2') {
+        return unused(Object.keys(STATUS_CODES)).map((code, index) =>
+            keyEntry(code, { [code]: { description: `\${1:${STATUS_CODES[code]}}` } }, STATUS_CODES[code], `1${String(index).padStart(3, '0')}`)
+        );
+    }
+    if (type === 'Map<MediaType>') {
+        return unused(MEDIA_TYPES).map((mediaType, index) =>
+            keyEntry(mediaType, { [mediaType]: { schema: { type: '${1:object}' } } }, 'Media type', `1${index}`)
+        );
+    }
+    if (type === 'SecurityRequirement') {
+        const schemes = valueAt(document, ['components', 'securitySchemes']) ?? valueAt(document, ['securityDefinitions']);
+        return unused(Object.keys(asObject(schemes))).map(name => keyEntry(name, { [escapeSnippet(name)]: [] }, 'Security scheme', `1${name}`));
+    }
+    return [];
+};
+
+const keyEntries = (type: string, document: unknown, context: CursorContext, format: Format): CompletionEntry[] => {
+    if (isMap(type)) {
+        return [
+            ...patternedEntries(type, document, context, format),
+            ...snippetEntries(MAP_SNIPPETS[elementOf(type)] ?? [], context, format)
+        ];
+    }
+
+    return [
+        ...fieldEntries(type, context, format),
+        ...patternedEntries(type, document, context, format),
+        ...(context.existingKeys.length === 0 ? snippetEntries(SHAPE_SNIPPETS[type] ?? [], context, format) : [])
+    ];
+};
+
+// Local references to every component a $ref in an object of this type may point at
+const refTargets = (shapeName: string | null, document: unknown) => {
+    const sections = (shapeName && REF_SECTIONS[shapeName]) || Object.values(REF_SECTIONS).flat();
+    return sections.flatMap(section =>
+        Object.keys(asObject(valueAt(document, section))).map(name => `#${segmentsToPointer([...section, name])}`)
+    );
+};
+
+const valueEntries = (root: string, document: unknown, context: CursorContext, format: Format): CompletionEntry[] => {
+    // The field owning the value; list items belong to the field holding the list
+    let fieldIndex = context.segments.length - 1;
+    while (fieldIndex > 0 && /^\d+$/.test(context.segments[fieldIndex])) fieldIndex--;
+    const field = context.segments[fieldIndex];
+    const objectSegments = context.segments.slice(0, fieldIndex);
+    const shapeName = resolveType(root, objectSegments);
+    if (field === undefined) return [];
+
+    const valueEntry = (value: string, kind: CompletionEntry['kind'], quoted: boolean, index: number): CompletionEntry => {
+        const quote = context.quote ?? (format === 'json' ? '"' : "'");
+        return {
+            label: value,
+            kind,
+            insertText: quoted || context.quote ? `${quote}${value}${quote}` : value,
+            isSnippet: false,
+            filterText: filterTextFor(value, context),
+            sortText: String(index).padStart(4, '0')
+        };
+    };
+
+    if (field === '$ref') {
+        // '#' starts a comment in YAML, so references are always quoted
+        return refTargets(shapeName, document).map((ref, index) => valueEntry(ref, 'reference', true, index));
+    }
+    if (!shapeName || !SHAPES[shapeName]) return [];
+
+    const fieldType = SHAPES[shapeName].fields[field];
+    const values = FIELD_VALUES[`${shapeName}.${field}`];
+    if (fieldType === 'boolean') {
+        return ['true', 'false'].map((value, index) => valueEntry(value, 'value', false, index));
+    }
+    if (!values) return [];
+
+    const candidates = typeof values === 'function' ? values(document, objectSegments) : values;
+    // Versions look like numbers to YAML
+    const quoted = format === 'json' || /^[\d.]+$/.test(candidates[0] ?? '');
+    return candidates.map((value, index) => valueEntry(value, 'value', quoted, index));
+};
+
+// The document as far as it can be read; the line being typed is dropped if it breaks parsing
+const parseLeniently = (text: string, offset: number) => {
+    try {
+        return yaml.load(text);
+    } catch {
+        const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+        const lineEnd = text.indexOf('\n', offset);
+        try {
+            return yaml.load(text.slice(0, lineStart) + (lineEnd === -1 ? '' : text.slice(lineEnd + 1)));
+        } catch {
+            return null;
+        }
+    }
+};
+
+export const getCompletions = (text: string, offset: number, format: Format): CompletionResult | null => {
+    const context = getCursorContext(text, offset, format);
+    if (!context) return null;
+
+    const document = parseLeniently(text, offset);
+    const root = /^\s*["']?swagger["']?\s*:/m.test(text) ? 'Swagger2' : 'Document';
+    const type = resolveType(root, context.segments);
+
+    const entries = context.kind === 'key' && type && isObjectType(type)
+        ? keyEntries(type, document, context, format)
+        : valueEntries(root, document, context, format);
+
+    return { context, entries };
+};
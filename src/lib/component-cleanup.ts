@@ -0,0 +1,222 @@
+// lib/component-cleanup.ts
+import { planReferenceEdits, RenameEdit } from '@/lib/component-rename';
+import { segmentsToPointer, SpecSourceMap } from '@/lib/source-map';
+import { asObject, isObject, valueAt } from '@/lib/spec-document';
+
+// Finds reusable components that nothing references any more, and components that are structurally
+// identical under different names, and plans the text edits that remove or collapse them.
+// Security schemes are referenced by name from security requirements rather than by $ref, so they are left alone.
+
+export interface ComponentEntry {
+    // Location of the component, e.g. ['components', 'schemas', 'Pet']
+    segments: string[];
+    name: string;
+    // The local $ref that points at it, e.g. '#/components/schemas/Pet'
+    ref: string;
+}
+
+export interface DuplicateGroup {
+    // The definition every duplicate is collapsed into
+    canonical: ComponentEntry;
+    duplicates: ComponentEntry[];
+}
+
+export interface ComponentReport {
+    unused: ComponentEntry[];
+    duplicates: DuplicateGroup[];
+}
+
+const OPENAPI_3_SECTIONS = ['schemas', 'responses', 'parameters', 'examples', 'requestBodies', 'headers', 'links', 'callbacks', 'pathItems'];
+const SWAGGER_2_SECTIONS = ['definitions', 'parameters', 'responses'];
+
+const listComponents = (document: unknown): ComponentEntry[] => {
+    const sections = asObject(document).swagger
+        ? SWAGGER_2_SECTIONS.map(section => [section])
+        : OPENAPI_3_SECTIONS.map(section => ['components', section]);
+
+    return sections.flatMap(sectionPath => {
+        const section = valueAt(document, sectionPath);
+        if (!section || typeof section !== 'object') return [];
+
+        return Object.keys(section).map(name => {
+            const segments = [...sectionPath, name];
+            return { segments, name, ref: `#${segmentsToPointer(segments)}` };
+        });
+    });
+};
+
+const isComponentSection = (path: string[]) =>
+    (path.length === 2 && path[0] === 'components' && OPENAPI_3_SECTIONS.includes(path[1]))
+    || (path.length === 1 && SWAGGER_2_SECTIONS.includes(path[0]));
+
+// Local references made by a value: $refs, plus schema names in discriminator mappings.
+// Example values are data and are not searched.
+const collectRefs = (value: unknown, refs: Set<string>, skipComponents = false, path: string[] = []) => {
+    if (!value || typeof value !== 'object') return;
+    if (skipComponents && isComponentSection(path)) return;
+
+    const { $ref } = asObject(value);
+    if (typeof $ref === 'string' && $ref.startsWith('#/')) refs.add($ref);
+
+    const mapping = valueAt(value, ['discriminator', 'mapping']);
+    if (isObject(mapping)) {
+        Object.values(mapping).forEach(target => {
+            if (typeof target !== 'string') return;
+            refs.add(target.startsWith('#/') ? target : `#/components/schemas/${target}`);
+        });
+    }
+
+    Object.entries(value).forEach(([key, child]) => {
+        if (key === 'example') return;
+        collectRefs(child, refs, skipComponents, [...path, key]);
+    });
+};
+
+// The component a reference points at, or into
+const targetOf = (ref: string, components: ComponentEntry[]) =>
+    components.find(component => ref === component.ref || ref.startsWith(`${component.ref}/`));
+
+// A schema extending a discriminated base through allOf. With an implicit discriminator (no mapping),
+// nothing references the subtype but it is still one of the base's variants.
+const extendsUsedBase = (document: unknown, component: ComponentEntry, components: ComponentEntry[], used: Set<ComponentEntry>) => {
+    const allOf = valueAt(document, [...component.segments, 'allOf']);
+    if (!Array.isArray(allOf)) return false;
+
+    return allOf.some(item => {
+        const { $ref } = asObject(item);
+        const base = typeof $ref === 'string' ? components.find(candidate => candidate.ref === $ref) : undefined;
+        return !!base && used.has(base) && !!valueAt(document, [...base.segments, 'discriminator']);
+    });
+};
+
+// Components not reachable from the paths, webhooks or anything else outside the component sections
+const findUnused = (document: unknown, components: ComponentEntry[]): ComponentEntry[] => {
+    const pending = new Set<string>();
+    collectRefs(document, pending, true);
+
+    const used = new Set<ComponentEntry>();
+    const visitedRefs = new Set<string>();
+    while (pending.size > 0) {
+        while (pending.size > 0) {
+            const [ref] = Array.from(pending);
+            pending.delete(ref);
+            if (visitedRefs.has(ref)) continue;
+            visitedRefs.add(ref);
+
+            const component = targetOf(ref, components);
+            if (!component || used.has(component)) continue;
+            used.add(component);
+
+            const refs = new Set<string>();
+            collectRefs(valueAt(document, component.segments), refs);
+            refs.forEach(next => pending.add(next));
+        }
+
+        // Subtypes of reachable polymorphic schemas are reachable too, along with what they reference
+        components
+            .filter(component => !used.has(component) && extendsUsedBase(document, component, components, used))
+            .forEach(component => pending.add(component.ref));
+    }
+
+    return components.filter(component => !used.has(component));
+};
+
+const rewriteOnce = (ref: string, aliases: Map<string, string>) => {
+    for (const [from, to] of Array.from(aliases.entries())) {
+        if (ref === from) return to;
+        if (ref.startsWith(`${from}/`)) return `${to}${ref.slice(from.length)}`;
+    }
+    return ref;
+};
+
+// Follows aliases to the definition that is kept: a duplicate can be aliased to a component that is
+// itself collapsed in a later pass
+const rewriteRef = (ref: string, aliases: Map<string, string>) => {
+    const visited = new Set<string>();
+    let current = ref;
+    while (!visited.has(current)) {
+        visited.add(current);
+        const next = rewriteOnce(current, aliases);
+        if (next === current) return current;
+        current = next;
+    }
+    return current;
+};
+
+// JSON with sorted keys and references mapped through `aliases`, so equal structures serialize equally
+const canonicalJson = (value: unknown, aliases: Map<string, string>): string => {
+    if (Array.isArray(value)) return `[${value.map(item => canonicalJson(item, aliases)).join(',')}]`;
+    if (!isObject(value)) return JSON.stringify(value);
+
+    const entries = Object.keys(value).sort().map(key => {
+        const field = value[key];
+        const child = key === '$ref' && typeof field === 'string' ? rewriteRef(field, aliases) : field;
+        return `${JSON.stringify(key)}:${canonicalJson(child, aliases)}`;
+    });
+    return `{${entries.join(',')}}`;
+};
+
+// Groups identical components of the same kind. Repeats until stable, since collapsing two schemas
+// can make the schemas that reference them identical too.
+const findDuplicates = (document: unknown, components: ComponentEntry[]): DuplicateGroup[] => {
+    const aliases = new Map<string, string>();
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        const seen = new Map<string, ComponentEntry>();
+
+        components.forEach(component => {
+            if (aliases.has(component.ref)) return;
+            const section = component.segments.slice(0, -1).join('/');
+            const key = `${section}\n${canonicalJson(valueAt(document, component.segments), aliases)}`;
+
+            const canonical = seen.get(key);
+            if (canonical) {
+                aliases.set(component.ref, canonical.ref);
+                changed = true;
+            } else {
+                seen.set(key, component);
+            }
+        });
+    }
+
+    const groups = new Map<string, DuplicateGroup>();
+    components.forEach(component => {
+        if (!aliases.has(component.ref)) return;
+        const canonicalRef = rewriteRef(component.ref, aliases);
+        const canonical = components.find(candidate => candidate.ref === canonicalRef)!;
+        const group = groups.get(canonicalRef) ?? { canonical, duplicates: [] };
+        group.duplicates.push(component);
+        groups.set(canonicalRef, group);
+    });
+    return Array.from(groups.values());
+};
+
+export const analyzeComponents = (document: unknown): ComponentReport => {
+    if (!document || typeof document !== 'object') return { unused: [], duplicates: [] };
+
+    const components = listComponents(document);
+    return {
+        unused: findUnused(document, components),
+        duplicates: findDuplicates(document, components)
+    };
+};
+
+// Edits deleting the components from the source, keeping everything else as written
+export const planComponentRemoval = (sourceMap: SpecSourceMap, components: ComponentEntry[]): RenameEdit[] =>
+    sourceMap.removalEdits(components.map(component => segmentsToPointer(component.segments)));
+
+// Edits replacing each duplicate by its canonical definition: references to the duplicate are pointed at
+// the canonical one and the duplicate is deleted
+export const planDuplicateCollapse = (source: string, sourceMap: SpecSourceMap, groups: DuplicateGroup[]): RenameEdit[] => {
+    const removals = planComponentRemoval(sourceMap, groups.flatMap(group => group.duplicates));
+    // References inside a deleted duplicate go with it
+    const removed = (change: RenameEdit) =>
+        removals.some(removal => change.offsets[0] >= removal.offsets[0] && change.offsets[1] <= removal.offsets[1]);
+
+    const rewrites = groups.flatMap(group =>
+        group.duplicates.flatMap(duplicate => planReferenceEdits(source, sourceMap, duplicate, group.canonical.name))
+    );
+    return [...rewrites.filter(change => !removed(change)), ...removals];
+};
@@ -0,0 +1,160 @@
+// lib/component-rename.ts
+import type { ComponentEntry } from '@/lib/component-cleanup';
+import { queryJsonPath } from '@/lib/json-path';
+import { OPERATIONS_PATH } from '@/lib/linter';
+import { findReferences, refTargetPointer } from '@/lib/ref-navigation';
+import { SourceRange, SourceSpan, SpecSourceMap, segmentsToPointer } from '@/lib/source-map';
+import { asObject, isObject, valueAt } from '@/lib/spec-document';
+
+// Renames a component and rewrites everything that points at it: $refs (including refs into the
+// component), discriminator mappings and, for security schemes, the keys of security requirements.
+// The rename is planned as text edits on the source so comments and formatting are kept.
+
+export interface RenameEdit {
+    range: SourceRange;
+    offsets: [number, number];
+    text: string;
+}
+
+export interface RenamePreviewLine {
+    lineNumber: number;
+    before: string;
+    after: string;
+}
+
+export interface RenamePlan {
+    edits: RenameEdit[];
+    preview: RenamePreviewLine[];
+}
+
+const OPENAPI_3_SECTIONS = ['schemas', 'parameters', 'responses', 'requestBodies', 'securitySchemes'];
+const SWAGGER_2_SECTIONS = ['definitions', 'parameters', 'responses', 'securityDefinitions'];
+
+// Component keys allowed by the OpenAPI specification
+const COMPONENT_NAME = /^[a-zA-Z0-9._-]+$/;
+
+const isSecuritySection = (segments: string[]) =>
+    segments.includes('securitySchemes') || segments.includes('securityDefinitions');
+
+const isSchemaSection = (segments: string[]) => segments.includes('schemas') || segments[0] === 'definitions';
+
+export const listRenameableComponents = (document: unknown): ComponentEntry[] => {
+    const sections = asObject(document).swagger
+        ? SWAGGER_2_SECTIONS.map(section => [section])
+        : OPENAPI_3_SECTIONS.map(section => ['components', section]);
+
+    return sections.flatMap(sectionPath => {
+        const section = valueAt(document, sectionPath);
+        if (!section || typeof section !== 'object') return [];
+
+        return Object.keys(section).map(name => {
+            const segments = [...sectionPath, name];
+            return { segments, name, ref: `#${segmentsToPointer(segments)}` };
+        });
+    });
+};
+
+// Why a new name cannot be used, or null when it can
+export const validateComponentName = (document: unknown, component: ComponentEntry, newName: string): string | null => {
+    if (!newName) return 'Enter a new name';
+    if (!COMPONENT_NAME.test(newName)) return 'Component names may only contain letters, digits, ".", "-" and "_"';
+    if (newName === component.name) return 'The new name is the same as the current one';
+
+    const section = valueAt(document, component.segments.slice(0, -1));
+    if (section && Object.prototype.hasOwnProperty.call(section, newName)) {
+        return `A component named "${newName}" already exists`;
+    }
+    return null;
+};
+
+// Replacement text for a scalar, keeping the quotes it was written with
+const quoted = (source: string, span: SourceSpan, value: string) => {
+    const quote = source[span.offsets[0]];
+    return quote === '"' || quote === "'" ? `${quote}${value}${quote}` : value;
+};
+
+const edit = (source: string, span: SourceSpan, value: string): RenameEdit => ({
+    range: span.range,
+    offsets: span.offsets,
+    text: quoted(source, span, value)
+});
+
+// Security requirement objects, at the root and on every operation and webhook
+const securityRequirements = (document: unknown) =>
+    ['$.security[*]', `${OPERATIONS_PATH}.security[*]`, `${OPERATIONS_PATH.replace('$.paths', '$.webhooks')}.security[*]`]
+        .flatMap(expression => queryJsonPath(document, expression));
+
+const discriminatorMappings = (document: unknown) =>
+    queryJsonPath(document, '$..discriminator.mapping').flatMap(({ value, path }) => isObject(value) ? [{ mapping: value, path }] : []);
+
+// Applies non-overlapping edits to the source
+export const applyRenameEdits = (source: string, edits: RenameEdit[]) =>
+    [...edits]
+        .sort((a, b) => b.offsets[0] - a.offsets[0])
+        .reduce((text, { offsets, text: replacement }) => text.slice(0, offsets[0]) + replacement + text.slice(offsets[1]), source);
+
+// Edits pointing the references to a component, and into it, at another component of the same section
+export const planReferenceEdits = (
+    source: string,
+    sourceMap: SpecSourceMap,
+    component: ComponentEntry,
+    newName: string
+): RenameEdit[] => {
+    const pointer = segmentsToPointer(component.segments);
+    const renamedPointer = segmentsToPointer([...component.segments.slice(0, -1), newName]);
+    const edits: RenameEdit[] = [];
+
+    // References to the component and into it
+    findReferences(sourceMap, pointer).forEach(location => {
+        const target = refTargetPointer(location.ref)!;
+        const span = { range: location.range, offsets: location.offsets };
+        edits.push(edit(source, span, `#${renamedPointer}${target.slice(pointer.length)}`));
+    });
+
+    // Mapping values are references, or bare schema names
+    discriminatorMappings(sourceMap.document).forEach(({ mapping, path }) => {
+        Object.entries(mapping).forEach(([key, value]) => {
+            if (typeof value !== 'string') return;
+            const renamed = value === component.name && isSchemaSection(component.segments)
+                ? newName
+                : refTargetPointer(value) === pointer ? `#${renamedPointer}` : null;
+            const span = renamed && sourceMap.span(segmentsToPointer([...path, key]), 'value');
+            if (span) edits.push(edit(source, span, renamed!));
+        });
+    });
+
+    return edits;
+};
+
+export const planComponentRename = (
+    source: string,
+    sourceMap: SpecSourceMap,
+    component: ComponentEntry,
+    newName: string
+): RenamePlan => {
+    const edits = planReferenceEdits(source, sourceMap, component, newName);
+
+    const keySpan = sourceMap.span(segmentsToPointer(component.segments), 'key');
+    if (keySpan) edits.push(edit(source, keySpan, newName));
+
+    // Security requirements name schemes by key
+    if (isSecuritySection(component.segments)) {
+        securityRequirements(sourceMap.document).forEach(match => {
+            if (!match.value || typeof match.value !== 'object' || !(component.name in match.value)) return;
+            const span = sourceMap.span(segmentsToPointer([...match.path, component.name]), 'key');
+            if (span) edits.push(edit(source, span, newName));
+        });
+    }
+
+    // Names and references never contain line breaks, so every edited line keeps its number
+    const sourceLines = source.split('\n');
+    const renamedLines = applyRenameEdits(source, edits).split('\n');
+    const lineNumbers = Array.from(new Set(edits.map(change => change.range.startLineNumber))).sort((a, b) => a - b);
+    const preview = lineNumbers.map(lineNumber => ({
+        lineNumber,
+        before: sourceLines[lineNumber - 1],
+        after: renamedLines[lineNumber - 1]
+    }));
+
+    return { edits, preview };
+};
@@ -0,0 +1,214 @@
+// lib/cursor-context.ts
+
+// Works out where in the document structure the cursor is, from the text alone. The text being edited
+// is usually incomplete or invalid, so this reads indentation (YAML) or brackets (JSON) rather than
+// relying on a full parse.
+
+export interface CursorContext {
+    // Location of the object being edited ('key'), or of the value being edited ('value')
+    segments: string[];
+    kind: 'key' | 'value';
+    // Text typed so far for the key or value, including an opening quote
+    prefix: string;
+    // The opening quote of the prefix, if any
+    quote?: '"' | "'";
+    // Length of a matching closing quote right after the cursor, typically inserted by the editor
+    suffixLength: number;
+    // Keys already present in the object being edited
+    existingKeys: string[];
+}
+
+interface YamlLine {
+    indent: number;
+    // Columns of the sequence markers ('- ') the line starts with
+    dashes: number[];
+    // Column where the key (or scalar) after the markers starts
+    keyColumn: number;
+    key?: string;
+    // Text after 'key:', empty when the key opens a nested block
+    value?: string;
+}
+
+const YAML_KEY = /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s"'#][^#]*?))\s*:(?:\s+(.*)|$)/;
+
+const parseYamlLine = (line: string): YamlLine | null => {
+    const indent = line.length - line.trimStart().length;
+    if (indent === line.length || line[indent] === '#') return null;
+
+    const dashes: number[] = [];
+    let column = indent;
+    while (line[column] === '-' && (column + 1 === line.length || line[column + 1] === ' ')) {
+        dashes.push(column);
+        column++;
+        while (line[column] === ' ') column++;
+    }
+
+    const match = line.slice(column).match(YAML_KEY);
+    if (!match) return { indent, dashes, keyColumn: column };
+
+    const key = match[1] ?? match[2]?.replace(/''/g, "'") ?? match[3];
+    return { indent, dashes, keyColumn: column, key, value: (match[4] ?? '').replace(/(^|\s)#.*$/, '').trim() };
+};
+
+// A key whose value is on the following lines
+const opensBlock = (line: YamlLine) => line.key !== undefined && (line.value === '' || /^[&!]\S*$/.test(line.value ?? ''));
+
+// Position of a sequence item among the items before it
+const itemIndex = (lines: (YamlLine | null)[], lineIndex: number, column: number) => {
+    let index = 0;
+    for (let i = lineIndex - 1; i >= 0; i--) {
+        const line = lines[i];
+        if (!line || line.indent > column) continue;
+        if (line.indent < column || line.dashes[0] !== column) break;
+        index++;
+    }
+    return index;
+};
+
+const quoteOf = (prefix: string): CursorContext['quote'] => (prefix[0] === '"' || prefix[0] === "'" ? prefix[0] : undefined);
+
+const getYamlContext = (text: string, offset: number): CursorContext | null => {
+    const before = text.slice(0, offset);
+    const lineIndex = before.split('\n').length - 1;
+    const lines = text.split('\n').map(parseYamlLine);
+    const linePrefix = before.slice(before.lastIndexOf('\n') + 1);
+
+    const current = parseYamlLine(linePrefix) ?? { indent: linePrefix.length, dashes: [], keyColumn: linePrefix.length };
+    if (linePrefix.trimStart().startsWith('#')) return null;
+
+    const segments: string[] = [];
+    let kind: CursorContext['kind'] = 'key';
+    let prefix = linePrefix.slice(current.keyColumn);
+
+    // 'key: partial value' on the cursor line
+    if (current.key !== undefined && linePrefix.slice(current.keyColumn).match(YAML_KEY)?.[4] !== undefined) {
+        kind = 'value';
+        segments.push(current.key);
+        prefix = linePrefix.slice(current.keyColumn).match(YAML_KEY)![4];
+    }
+
+    let target = current.keyColumn;
+    let afterDash = false;
+    const existingKeys = new Set<string>();
+    const enter = (segment: string, column: number, dash: boolean) => {
+        segments.unshift(segment);
+        target = column;
+        afterDash = dash;
+    };
+
+    // Sequence markers on the cursor line open items of their own
+    [...current.dashes].reverse().forEach(column => enter(String(itemIndex(lines, lineIndex, column)), column, true));
+
+    // Keys of the object being edited are collected until the walk climbs out of it
+    const objectColumn = current.keyColumn;
+    const objectDepth = segments.length;
+    const collectsKeys = current.dashes.length === 0;
+    const collectKey = (line: YamlLine) => {
+        if (collectsKeys && segments.length === objectDepth && line.key !== undefined && line.keyColumn === objectColumn) {
+            existingKeys.add(line.key);
+        }
+    };
+
+    for (let i = lineIndex - 1; i >= 0; i--) {
+        const line = lines[i];
+        if (!line) continue;
+        collectKey(line);
+
+        // In a compact sequence the items start in the same column as their parent key
+        const compactParent = afterDash && line.indent === target && line.dashes.length === 0 && opensBlock(line);
+        if (line.indent >= target && !compactParent) continue;
+
+        if (line.key !== undefined && (line.keyColumn < target || compactParent)) {
+            // The cursor is inside a multi-line scalar rather than a nested block
+            if (!opensBlock(line)) return null;
+            enter(line.key, line.keyColumn, false);
+        }
+        [...line.dashes].reverse().filter(column => column < target).forEach(column => enter(String(itemIndex(lines, i, column)), column, true));
+    }
+
+    // Keys of the same object further down
+    if (collectsKeys) {
+        for (let i = lineIndex + 1; i < lines.length; i++) {
+            const line = lines[i];
+            if (!line) continue;
+            if (line.indent < objectColumn || (line.indent === objectColumn && line.dashes.length > 0)) break;
+            if (line.indent === objectColumn && line.key !== undefined) existingKeys.add(line.key);
+        }
+    }
+
+    const quote = quoteOf(prefix);
+    return {
+        segments,
+        kind,
+        prefix,
+        quote,
+        suffixLength: quote && text[offset] === quote ? 1 : 0,
+        existingKeys: Array.from(existingKeys)
+    };
+};
+
+type JsonFrame =
+    | { type: 'object'; key?: string; keys: string[]; expecting: 'key' | 'value' }
+    | { type: 'array'; index: number };
+
+const getJsonContext = (text: string, offset: number): CursorContext | null => {
+    const stack: JsonFrame[] = [];
+    let openString: number | null = null;
+
+    for (let i = 0; i < offset; i++) {
+        const char = text[i];
+        const top = stack[stack.length - 1];
+
+        if (char === '"') {
+            let end = i + 1;
+            while (end < offset && text[end] !== '"') end += text[end] === '\\' ? 2 : 1;
+            if (end >= offset) {
+                openString = i;
+                break;
+            }
+            if (top?.type === 'object' && top.expecting === 'key') {
+                top.key = text.slice(i + 1, end);
+            }
+            i = end;
+        } else if (char === '{') {
+            stack.push({ type: 'object', keys: [], expecting: 'key' });
+        } else if (char === '[') {
+            stack.push({ type: 'array', index: 0 });
+        } else if (char === '}' || char === ']') {
+            stack.pop();
+        } else if (char === ':' && top?.type === 'object') {
+            if (top.key !== undefined) top.keys.push(top.key);
+            top.expecting = 'value';
+        } else if (char === ',' && top) {
+            if (top.type === 'object') {
+                top.expecting = 'key';
+                top.key = undefined;
+            } else {
+                top.index++;
+            }
+        }
+    }
+
+    const top = stack[stack.length - 1];
+    if (!top) return null;
+
+    const segments = stack.slice(0, -1).map(frame => (frame.type === 'object' ? frame.key ?? '' : String(frame.index)));
+    const prefix = openString !== null ? text.slice(openString, offset) : text.slice(0, offset).match(/[^\s,:{}[\]]*$/)![0];
+    // JSON strings end at the line; an unbalanced quote further up is not the cursor's string
+    if (prefix.includes('\n')) return null;
+    const quote = quoteOf(prefix);
+    const context = { prefix, quote, suffixLength: quote && text[offset] === quote ? 1 : 0 };
+
+    if (top.type === 'array') {
+        return { ...context, segments: [...segments, String(top.index)], kind: 'value', existingKeys: [] };
+    }
+    if (top.expecting === 'value') {
+        return { ...context, segments: [...segments, top.key ?? ''], kind: 'value', existingKeys: top.keys.filter(key => key !== top.key) };
+    }
+    return { ...context, segments, kind: 'key', existingKeys: top.keys };
+};
+
+// Context of the cursor at `offset` in YAML or JSON text, or null where nothing can be suggested
+// (comments, multi-line strings, outside the root object)
+export const getCursorContext = (text: string, offset: number, format: 'yaml' | 'json'): CursorContext | null =>
+    format === 'json' ? getJsonContext(text, offset) : getYamlContext(text, offset);
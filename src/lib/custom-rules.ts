@@ -0,0 +1,197 @@
+// lib/custom-rules.ts
+import yaml from 'js-yaml';
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import { JsonPathSegment, queryJsonPath } from '@/lib/json-path';
+import type { LintSeverity } from '@/lib/linter';
+import { segmentsToPointer } from '@/lib/source-map';
+
+// Lint rules written by the user as JavaScript functions. They are stored with the spec library and run
+// in a throwaway worker, so a broken rule cannot block the page and a rule that never returns is stopped
+// after RULE_TIMEOUT_MS. This is not a security boundary: the worker shares the page's origin, and hiding
+// the network and storage globals only guards against accidents, so rules must come from a trusted source.
+export interface CustomRule {
+    id: string;
+    name: string;
+    description?: string;
+    // JSONPath selecting the nodes passed to the function, see lib/json-path
+    given: string;
+    severity: LintSeverity;
+    // Source of a function `(node, { path, document }) => string | string[] | { message, path } | null`
+    code: string;
+}
+
+export const CUSTOM_RULES_KEY = 'spec_view_custom_rules';
+
+const RULE_TIMEOUT_MS = 2000;
+
+export const CUSTOM_RULE_TEMPLATE = `(node, { path, document }) => {
+    // Return a message (or a list of messages) for each problem, or nothing when the node is fine
+    if (!node.description) {
+        return 'Missing description';
+    }
+}`;
+
+export const loadCustomRules = (): CustomRule[] => {
+    if (typeof localStorage === 'undefined') return [];
+
+    try {
+        const stored = localStorage.getItem(CUSTOM_RULES_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (storageError) {
+        console.error('Failed to load custom rules:', storageError);
+        return [];
+    }
+};
+
+export const saveCustomRules = (rules: CustomRule[]) => {
+    try {
+        localStorage.setItem(CUSTOM_RULES_KEY, JSON.stringify(rules));
+    } catch (storageError) {
+        console.error('Failed to save custom rules:', storageError);
+    }
+};
+
+// Messages exchanged with the sandbox
+interface SandboxJob {
+    ruleId: string;
+    code: string;
+    paths: JsonPathSegment[][];
+}
+
+interface SandboxResult {
+    ruleId: string;
+    path: JsonPathSegment[];
+    message: string;
+    failed?: boolean;
+}
+
+// Runs inside the sandbox worker. Kept as plain source so it can be loaded from a Blob URL.
+// Hiding these globals keeps well-meaning rules from making requests; it does not stop a determined one.
+const SANDBOX_SOURCE = `
+'use strict';
+['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'Worker', 'BroadcastChannel']
+    .forEach(name => { try { Object.defineProperty(self, name, { value: undefined }); } catch (e) {} });
+
+const nodeAt = (document, path) => path.reduce((node, segment) => node == null ? undefined : node[segment], document);
+
+self.onmessage = event => {
+    const { document, jobs } = event.data;
+    const results = [];
+
+    jobs.forEach(job => {
+        let check;
+        try {
+            check = new Function('"use strict"; return (' + job.code + ');')();
+            if (typeof check !== 'function') throw new Error('the rule must be a function');
+        } catch (error) {
+            results.push({ ruleId: job.ruleId, path: [], message: 'Rule could not be loaded: ' + error.message, failed: true });
+            return;
+        }
+
+        job.paths.forEach(path => {
+            try {
+                const outcome = check(nodeAt(document, path), { path: path.slice(), document });
+                if (!outcome) return;
+                (Array.isArray(outcome) ? outcome : [outcome]).forEach(violation => {
+                    if (!violation) return;
+                    const relative = typeof violation === 'object' && Array.isArray(violation.path) ? violation.path : [];
+                    const message = typeof violation === 'object' ? String(violation.message) : String(violation);
+                    results.push({ ruleId: job.ruleId, path: path.concat(relative), message });
+                });
+            } catch (error) {
+                results.push({ ruleId: job.ruleId, path, message: 'Rule threw an error: ' + (error && error.message), failed: true });
+            }
+        });
+    });
+
+    self.postMessage(results);
+};
+`;
+
+const isActive = (rule: CustomRule) => rule.severity !== 'off';
+
+const toValidationSeverity = (severity: LintSeverity): ValidationError['severity'] =>
+    severity === 'warn' ? 'warning' : severity === 'info' ? 'info' : 'error';
+
+// Evaluates the enabled rules against a parsed document. Aborting the signal stops the worker and
+// resolves with no results.
+export const runCustomRules = (document: unknown, rules: CustomRule[], signal?: AbortSignal): Promise<ValidationError[]> => {
+    const activeRules = rules.filter(isActive);
+    if (!document || typeof document !== 'object' || activeRules.length === 0) return Promise.resolve([]);
+    if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || signal?.aborted) return Promise.resolve([]);
+
+    const setupErrors: ValidationError[] = [];
+    const jobs: SandboxJob[] = [];
+    activeRules.forEach(rule => {
+        try {
+            jobs.push({ ruleId: rule.id, code: rule.code, paths: queryJsonPath(document, rule.given).map(match => match.path) });
+        } catch (pathError) {
+            const message = pathError instanceof Error ? pathError.message : String(pathError);
+            setupErrors.push({ rule: rule.id, message: `Custom rule '${rule.name}' has an invalid selector: ${message}`, severity: 'warning' });
+        }
+    });
+
+    return new Promise(resolve => {
+        const url = URL.createObjectURL(new Blob([SANDBOX_SOURCE], { type: 'text/javascript' }));
+        let sandbox: Worker;
+        try {
+            sandbox = new Worker(url);
+        } catch (workerError) {
+            // E.g. workers from blob URLs are blocked by a Content Security Policy
+            URL.revokeObjectURL(url);
+            const message = workerError instanceof Error ? workerError.message : String(workerError);
+            resolve([...setupErrors, { message: `Custom rules could not be run: ${message}`, severity: 'warning' }]);
+            return;
+        }
+
+        const finish = (errors: ValidationError[]) => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', abort);
+            sandbox.terminate();
+            URL.revokeObjectURL(url);
+            resolve([...setupErrors, ...errors]);
+        };
+        const abort = () => finish([]);
+        signal?.addEventListener('abort', abort);
+
+        const timer = setTimeout(() => finish([{
+            message: `Custom rules did not finish within ${RULE_TIMEOUT_MS / 1000}s and were stopped`,
+            severity: 'warning'
+        }]), RULE_TIMEOUT_MS);
+
+        sandbox.onmessage = (event: MessageEvent<SandboxResult[]>) => {
+            finish(event.data.map(result => {
+                const rule = activeRules.find(candidate => candidate.id === result.ruleId)!;
+                return {
+                    path: result.path.join('.') || undefined,
+                    pointer: segmentsToPointer(result.path),
+                    // Ids stay stable when a rule is renamed; the name goes into the message
+                    rule: rule.id,
+                    code: 'CUSTOM_RULE',
+                    message: `${rule.name}: ${result.message}`,
+                    severity: result.failed ? 'warning' : toValidationSeverity(rule.severity)
+                };
+            }));
+        };
+        sandbox.onerror = event => {
+            event.preventDefault();
+            finish([{ message: `Custom rules failed to run: ${event.message}`, severity: 'warning' }]);
+        };
+
+        sandbox.postMessage({ document, jobs });
+    });
+};
+
+// Same as runCustomRules, for spec content that may still be YAML or JSON text
+export const runCustomRulesOnContent = (content: unknown, rules: CustomRule[]): Promise<ValidationError[]> => {
+    // Parsing the text again is only worth it when there is a rule to run
+    if (!rules.some(isActive)) return Promise.resolve([]);
+    if (typeof content !== 'string') return runCustomRules(content, rules);
+
+    try {
+        return runCustomRules(yaml.load(content), rules);
+    } catch {
+        // Syntax errors are already reported by the parser
+        return Promise.resolve([]);
+    }
+};
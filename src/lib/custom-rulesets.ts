@@ -0,0 +1,33 @@
+// lib/custom-rulesets.ts
+
+// Rulesets imported by the user. Only the source text is stored; rules are compiled when a spec is linted,
+// which also lets the parser worker receive them as plain data.
+export interface CustomRuleset {
+    id: string;
+    name: string;
+    format: 'spectral';
+    source: string;
+    importedAt: number;
+}
+
+export const CUSTOM_RULESETS_KEY = 'spec_view_custom_rulesets';
+
+export const loadCustomRulesets = (): CustomRuleset[] => {
+    if (typeof localStorage === 'undefined') return [];
+
+    try {
+        const stored = localStorage.getItem(CUSTOM_RULESETS_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (storageError) {
+        console.error('Failed to load custom rulesets:', storageError);
+        return [];
+    }
+};
+
+export const saveCustomRulesets = (rulesets: CustomRuleset[]) => {
+    try {
+        localStorage.setItem(CUSTOM_RULESETS_KEY, JSON.stringify(rulesets));
+    } catch (storageError) {
+        console.error('Failed to save custom rulesets:', storageError);
+    }
+};
@@ -0,0 +1,88 @@
+// lib/errors.ts
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+
+// Stable codes for every problem the parser and validators report. The UI groups and filters on these,
+// and looks up suggestions by code rather than by matching message text.
+export type ErrorCode =
+    | 'EMPTY_SPEC'
+    | 'INVALID_CONTENT'
+    | 'SYNTAX_ERROR'
+    | 'MISSING_SPEC_VERSION'
+    | 'UNSUPPORTED_SPEC_VERSION'
+    | 'MISSING_INFO'
+    | 'MISSING_TITLE'
+    | 'MISSING_API_VERSION'
+    | 'NO_PATHS'
+    | 'NO_OPERATIONS'
+    | 'SCHEMA_VIOLATION'
+    | 'INVALID_EXAMPLE'
+    | 'UNRESOLVED_REF'
+    | 'RESOLVE_FAILED'
+    | 'MAPPING_FAILED'
+    | 'LINT_VIOLATION'
+    | 'CUSTOM_RULE'
+    | 'UNEXPECTED';
+
+// The original exception, kept as plain data so it survives the worker boundary and the parse cache
+export interface ErrorCause {
+    name: string;
+    message: string;
+}
+
+export interface ErrorSuggestion {
+    // Identifies the fix, e.g. 'add-info-title', so the UI can offer an action for it
+    id: string;
+    message: string;
+}
+
+// Raw messages can embed the whole spec; this keeps them useful without bloating cached results
+const MAX_CAUSE_LENGTH = 1000;
+
+const SUGGESTIONS: Partial<Record<ErrorCode, ErrorSuggestion>> = {
+    EMPTY_SPEC: { id: 'add-content', message: 'Paste or import an OpenAPI or Swagger document.' },
+    INVALID_CONTENT: { id: 'use-yaml-or-json', message: 'Provide the specification as YAML or JSON text.' },
+    SYNTAX_ERROR: { id: 'fix-syntax', message: 'Fix the YAML/JSON syntax at the marked location; check indentation, quotes and brackets.' },
+    MISSING_SPEC_VERSION: { id: 'add-spec-version', message: 'Add the OpenAPI/Swagger version identifier at the root, e.g. "openapi: 3.1.0".' },
+    UNSUPPORTED_SPEC_VERSION: { id: 'use-supported-version', message: 'Use OpenAPI 3.0.x, 3.1.0 or Swagger 2.0.' },
+    MISSING_INFO: { id: 'add-info', message: 'Add the required "info" object with "title" and "version" properties.' },
+    MISSING_TITLE: { id: 'add-info-title', message: 'Add a "title" to the "info" object.' },
+    MISSING_API_VERSION: { id: 'add-info-version', message: 'Add a "version" to the "info" object.' },
+    NO_PATHS: { id: 'add-path', message: 'Add at least one path with HTTP methods to your specification.' },
+    NO_OPERATIONS: { id: 'add-operation', message: 'Add an HTTP method (get, post, ...) under at least one path.' },
+    SCHEMA_VIOLATION: { id: 'match-schema', message: 'Change the value so it matches the OpenAPI specification format.' },
+    INVALID_EXAMPLE: { id: 'update-example', message: 'Update the example, or the schema if the example is right.' },
+    UNRESOLVED_REF: { id: 'fix-ref', message: 'Point the $ref at an existing component, or add the missing component.' },
+    RESOLVE_FAILED: { id: 'check-refs', message: 'Check that all references ($ref) in your specification point to valid objects.' },
+    MAPPING_FAILED: { id: 'check-operation', message: 'Check the parameters, request body and responses of this operation.' }
+};
+
+export const suggestionFor = (code: ErrorCode | undefined): ErrorSuggestion | undefined =>
+    code ? SUGGESTIONS[code] : undefined;
+
+export const toErrorCause = (error: unknown): ErrorCause => {
+    const name = error instanceof Error ? error.name : typeof error;
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+        name,
+        message: message.length > MAX_CAUSE_LENGTH ? `${message.slice(0, MAX_CAUSE_LENGTH)}…` : message
+    };
+};
+
+// Builds a coded error, with the suggestion for its code and the raw cause when there is one
+export const createError = (
+    code: ErrorCode,
+    message: string,
+    options: Partial<Omit<ValidationError, 'code' | 'message' | 'cause'>> & { cause?: unknown } = {}
+): ValidationError => {
+    const { cause, severity = 'error', ...location } = options;
+    const suggestion = suggestionFor(code);
+
+    return {
+        ...location,
+        code,
+        message,
+        severity,
+        ...(suggestion ? { suggestion } : {}),
+        ...(cause !== undefined ? { cause: toErrorCause(cause) } : {})
+    };
+};
@@ -0,0 +1,228 @@
+// lib/example-validator.ts
+import type { ErrorObject } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+import AjvDraft04 from 'ajv-draft-04';
+import addFormats from 'ajv-formats';
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import { JsonPathSegment, queryJsonPath } from '@/lib/json-path';
+import { OPERATIONS_PATH } from '@/lib/linter';
+import { createError } from '@/lib/errors';
+import { detectMetaSchemaVersion, reduceSchemaErrors, toValidationError } from '@/lib/meta-schema';
+import { refToSegments, segmentsToFragment, segmentsToPointer } from '@/lib/source-map';
+import { asObject, asString, isObject, JsonObject, valueAt } from '@/lib/spec-document';
+
+// Checks every example in a document against the schema it illustrates: media type and parameter
+// examples (inline or referenced from components), Swagger 2.0 response examples, and `example`
+// values on schemas themselves. Schemas are resolved by Ajv, so $refs, formats and oneOf/anyOf apply.
+
+// A single broken example can fail dozens of constraints; the first few explain it
+const MAX_ERRORS_PER_EXAMPLE = 5;
+
+// The document is registered with Ajv under this id, so `#/components/...` refs resolve against it
+const DOCUMENT_ID = 'openapi-document';
+
+const AJV_OPTIONS = { allErrors: true, strict: false, validateSchema: false, logger: false as const };
+
+// OpenAPI formats that are not JSON Schema formats
+const INT32_RANGE = 2 ** 31;
+const OPENAPI_FORMATS = {
+    int32: { type: 'number' as const, validate: (value: number) => Number.isInteger(value) && value >= -INT32_RANGE && value < INT32_RANGE },
+    int64: { type: 'number' as const, validate: (value: number) => Number.isInteger(value) },
+    float: { type: 'number' as const, validate: () => true },
+    double: { type: 'number' as const, validate: () => true },
+    byte: /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/,
+    binary: true,
+    password: true
+} as const;
+
+// Keywords holding subschemas, walked to find schema-level examples
+const SUBSCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not'];
+const SUBSCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties'];
+
+interface ExampleTarget {
+    // Location of the example value, and of the schema it is checked against
+    examplePath: JsonPathSegment[];
+    schemaPath: JsonPathSegment[];
+    value: unknown;
+    // Set when the example was pulled in through a $ref
+    ref?: string;
+}
+
+const createAjv = (document: JsonObject) => {
+    const version = detectMetaSchemaVersion(document);
+    const ajv = version === '3.1' ? new Ajv2020(AJV_OPTIONS) : new AjvDraft04(AJV_OPTIONS);
+    addFormats(ajv as Ajv2020);
+    Object.entries(OPENAPI_FORMATS).forEach(([name, format]) => ajv.addFormat(name, format));
+    ajv.addSchema(document, DOCUMENT_ID);
+    return ajv;
+};
+
+// Resolves a local `#/components/examples/...` reference
+const resolveLocalRef = (document: unknown, ref: string) => {
+    if (!ref.startsWith('#/')) return undefined;
+    return valueAt(document, refToSegments(ref));
+};
+
+// `example` and `examples` of a parameter, header or media type object
+const collectObjectExamples = (document: unknown, node: unknown, path: JsonPathSegment[], targets: ExampleTarget[]) => {
+    if (!isObject(node) || node.$ref || !node.schema) return;
+    const schemaPath = [...path, 'schema'];
+
+    if (node.example !== undefined) {
+        targets.push({ examplePath: [...path, 'example'], schemaPath, value: node.example });
+    }
+
+    Object.entries(asObject(node.examples)).forEach(([name, example]) => {
+        const ref = asString(asObject(example).$ref);
+        const resolved = ref ? resolveLocalRef(document, ref) : example;
+        // External examples are not fetched
+        if (!isObject(resolved) || resolved.value === undefined) return;
+
+        targets.push({
+            examplePath: ref ? [...path, 'examples', name] : [...path, 'examples', name, 'value'],
+            schemaPath,
+            value: resolved.value,
+            ref
+        });
+    });
+};
+
+// `example` (and 3.1 `examples`) on a schema and all of its subschemas
+const collectSchemaExamples = (schema: unknown, path: JsonPathSegment[], targets: ExampleTarget[], seen = new Set<unknown>()) => {
+    if (!isObject(schema) || seen.has(schema)) return;
+    seen.add(schema);
+
+    if (schema.example !== undefined && !schema.$ref) {
+        targets.push({ examplePath: [...path, 'example'], schemaPath: path, value: schema.example });
+    }
+    if (Array.isArray(schema.examples) && !schema.$ref) {
+        schema.examples.forEach((example, index) => {
+            targets.push({ examplePath: [...path, 'examples', index], schemaPath: path, value: example });
+        });
+    }
+
+    SUBSCHEMA_KEYWORDS.forEach(keyword => collectSchemaExamples(schema[keyword], [...path, keyword], targets, seen));
+    SUBSCHEMA_LIST_KEYWORDS.forEach(keyword => {
+        const subSchemas = schema[keyword];
+        if (Array.isArray(subSchemas)) {
+            subSchemas.forEach((subSchema, index) => collectSchemaExamples(subSchema, [...path, keyword, index], targets, seen));
+        }
+    });
+    SUBSCHEMA_MAP_KEYWORDS.forEach(keyword => {
+        Object.entries(asObject(schema[keyword])).forEach(([name, subSchema]) =>
+            collectSchemaExamples(subSchema, [...path, keyword, name], targets, seen)
+        );
+    });
+};
+
+const OPERATION_ROOTS = [OPERATIONS_PATH, OPERATIONS_PATH.replace('$.paths', '$.webhooks')];
+
+const collectExamples = (document: JsonObject): ExampleTarget[] => {
+    const targets: ExampleTarget[] = [];
+    const query = (expressions: string[]) => expressions.flatMap(expression => queryJsonPath(document, expression));
+
+    // Schemas of the parameters, headers, media types and responses visited below. Only these positions
+    // hold schemas: a `schema` key inside an example value or an extension is data.
+    const schemas: { value: unknown; path: JsonPathSegment[] }[] = [];
+    const collectFrom = (node: unknown, path: JsonPathSegment[]) => {
+        collectObjectExamples(document, node, path, targets);
+        schemas.push({ value: valueAt(node, ['schema']), path: [...path, 'schema'] });
+    };
+
+    // Parameters and headers, with their schema or their own media types
+    query([
+        '$.parameters[*]',
+        '$.paths[*].parameters[*]',
+        '$.components.parameters[*]',
+        '$.components.headers[*]',
+        '$.components.responses[*].headers[*]',
+        ...OPERATION_ROOTS.flatMap(root => [`${root}.parameters[*]`, `${root}.responses[*].headers[*]`])
+    ]).forEach(match => {
+        collectFrom(match.value, match.path);
+        Object.entries(asObject(valueAt(match.value, ['content']))).forEach(([mediaType, mediaTypeObject]) =>
+            collectFrom(mediaTypeObject, [...match.path, 'content', mediaType])
+        );
+    });
+
+    // Request and response bodies
+    query([
+        '$.components.requestBodies[*].content[*]',
+        '$.components.responses[*].content[*]',
+        ...OPERATION_ROOTS.flatMap(root => [`${root}.requestBody.content[*]`, `${root}.responses[*].content[*]`])
+    ]).forEach(match => collectFrom(match.value, match.path));
+
+    // Swagger 2.0 response examples are keyed by MIME type
+    query(['$.responses[*]', `${OPERATIONS_PATH}.responses[*]`]).forEach(({ value: response, path }) => {
+        if (!document.swagger || !isObject(response) || !response.schema) return;
+        schemas.push({ value: response.schema, path: [...path, 'schema'] });
+        if (!isObject(response.examples)) return;
+        Object.entries(response.examples).forEach(([mimeType, example]) => {
+            targets.push({ examplePath: [...path, 'examples', mimeType], schemaPath: [...path, 'schema'], value: example });
+        });
+    });
+
+    // Examples on the schemas themselves
+    [...query(['$.components.schemas[*]', '$.definitions[*]']), ...schemas]
+        .forEach(({ value, path }) => collectSchemaExamples(value, path, targets));
+
+    return targets;
+};
+
+// Rewrites an Ajv error so it points into the document rather than into the example value
+const locateError = (schemaError: ErrorObject, examplePath: JsonPathSegment[]): ErrorObject => ({
+    ...schemaError,
+    instancePath: `${segmentsToPointer(examplePath)}${schemaError.instancePath}`
+});
+
+// Errors from inside oneOf/anyOf branches only tell half the story without saying so
+const alternativeNote = (schemaError: ErrorObject) => {
+    const branches = schemaError.schemaPath.match(/\/(oneOf|anyOf)\/\d+\//g);
+    if (!branches) return '';
+    const keyword = branches[branches.length - 1].split('/')[1];
+    return ` (no ${keyword} alternative matches)`;
+};
+
+// Validates every example in a parsed (unresolved) document against its schema
+export const validateExamples = (document: unknown): ValidationError[] => {
+    if (!isObject(document) || !detectMetaSchemaVersion(document)) return [];
+
+    const targets = collectExamples(document);
+    if (targets.length === 0) return [];
+
+    const ajv = createAjv(document);
+    const results: ValidationError[] = [];
+
+    targets.forEach(target => {
+        // Ajv resolves the id as a URI, so keys such as 'discount%' must be percent-encoded
+        const schemaRef = `${DOCUMENT_ID}${segmentsToFragment(target.schemaPath)}`;
+        let validate;
+        try {
+            validate = ajv.getSchema(schemaRef);
+        } catch (compileError) {
+            const message = compileError instanceof Error ? compileError.message : String(compileError);
+            results.push(createError('INVALID_EXAMPLE', `Schema could not be compiled to check its examples: ${message}`, {
+                path: target.schemaPath.join('.'),
+                pointer: segmentsToPointer(target.schemaPath),
+                severity: 'warning',
+                cause: compileError
+            }));
+            return;
+        }
+        if (!validate || validate(target.value) || !validate.errors) return;
+
+        const source = target.ref ? ` (example ${target.ref})` : '';
+        reduceSchemaErrors(validate.errors).slice(0, MAX_ERRORS_PER_EXAMPLE).forEach(schemaError => {
+            const located = toValidationError(locateError(schemaError, target.examplePath));
+            results.push(createError('INVALID_EXAMPLE', `Example${source} does not match its schema: ${located.message}${alternativeNote(schemaError)}`, {
+                path: located.path,
+                pointer: located.pointer,
+                keyword: located.keyword,
+                expected: located.expected,
+                severity: 'warning'
+            }));
+        });
+    });
+
+    return results;
+};
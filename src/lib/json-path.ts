@@ -0,0 +1,167 @@
+// lib/json-path.ts
+
+// A small JSONPath subset, enough to target parts of an OpenAPI document:
+//   $                  the document root
+//   .key  ['key']      a child property (bracket form for keys with dots or slashes)
+//   [0]                an array item
+//   .*  [*]            every child
+//   ..key  ..*         descendants at any depth
+//   [get,put,'x-y']    a union of child keys
+//   ~                  (at the end) the property names of the matches rather than their values
+// Filter and script expressions ([?(...)], [(...)]) are rejected rather than read as property names.
+import { valueAt } from '@/lib/spec-document';
+
+export type JsonPathSegment = string | number;
+
+export interface JsonPathMatch {
+    value: unknown;
+    path: JsonPathSegment[];
+}
+
+type Selector =
+    | { type: 'child'; keys: string[] }
+    | { type: 'wildcard' }
+    | { type: 'descendant'; keys: string[] | null }
+    | { type: 'propertyName' };
+
+const unquote = (key: string) => {
+    const trimmed = key.trim();
+    return /^(['"]).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+};
+
+// Splits a bracket body on commas that are not inside quotes
+const splitUnion = (body: string) => {
+    const keys: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (const char of body) {
+        if (quote) {
+            if (char === quote) quote = null;
+            current += char;
+        } else if (char === '\'' || char === '"') {
+            quote = char;
+            current += char;
+        } else if (char === ',') {
+            keys.push(unquote(current));
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    keys.push(unquote(current));
+    return keys;
+};
+
+const compiledPaths = new Map<string, Selector[]>();
+
+export const parseJsonPath = (expression: string): Selector[] => {
+    const cached = compiledPaths.get(expression);
+    if (cached) return cached;
+
+    const source = expression.trim();
+    if (!source.startsWith('$')) throw new Error(`JSONPath must start with '$': ${expression}`);
+
+    const selectors: Selector[] = [];
+    let index = 1;
+
+    const readName = () => {
+        const match = source.slice(index).match(/^[^.[\]]+/);
+        if (!match) throw new Error(`Expected a property name at position ${index} in ${expression}`);
+        index += match[0].length;
+        return match[0];
+    };
+
+    const readBracket = () => {
+        const end = source.indexOf(']', index);
+        if (end === -1) throw new Error(`Unclosed '[' in ${expression}`);
+        const body = source.slice(index + 1, end);
+        if (/^\s*[?(]/.test(body)) throw new Error(`Filter and script expressions are not supported in ${expression}`);
+        index = end + 1;
+        return body.trim() === '*' ? null : splitUnion(body);
+    };
+
+    while (index < source.length) {
+        if (source.startsWith('..', index)) {
+            index += 2;
+            if (source[index] === '[') {
+                selectors.push({ type: 'descendant', keys: readBracket() });
+            } else {
+                const name = readName();
+                selectors.push({ type: 'descendant', keys: name === '*' ? null : [name] });
+            }
+        } else if (source[index] === '.') {
+            index++;
+            const name = readName();
+            selectors.push(name === '*' ? { type: 'wildcard' } : { type: 'child', keys: [name] });
+        } else if (source[index] === '[') {
+            const keys = readBracket();
+            selectors.push(keys ? { type: 'child', keys } : { type: 'wildcard' });
+        } else if (source[index] === '~' && index === source.length - 1) {
+            index++;
+            selectors.push({ type: 'propertyName' });
+        } else {
+            throw new Error(`Unexpected '${source[index]}' at position ${index} in ${expression}`);
+        }
+    }
+
+    compiledPaths.set(expression, selectors);
+    return selectors;
+};
+
+const childEntries = (value: unknown): [JsonPathSegment, unknown][] => {
+    if (Array.isArray(value)) return value.map((item, position) => [position, item]);
+    if (value && typeof value === 'object') return Object.entries(value);
+    return [];
+};
+
+const selectChildren = (match: JsonPathMatch, keys: string[]): JsonPathMatch[] => {
+    const { value } = match;
+    if (!value || typeof value !== 'object') return [];
+
+    return keys.flatMap(key => {
+        const segment: JsonPathSegment = Array.isArray(value) && /^\d+$/.test(key) ? Number(key) : key;
+        if (!Object.prototype.hasOwnProperty.call(value, segment)) return [];
+        return [{ value: valueAt(value, [segment]), path: [...match.path, segment] }];
+    });
+};
+
+// Every node below a match, depth first, including the match itself. Cycles are skipped.
+const descendants = (match: JsonPathMatch, seen = new Set<unknown>()): JsonPathMatch[] => {
+    if (!match.value || typeof match.value !== 'object' || seen.has(match.value)) return [match];
+    seen.add(match.value);
+
+    return [
+        match,
+        ...childEntries(match.value).flatMap(([segment, child]) =>
+            descendants({ value: child, path: [...match.path, segment] }, seen)
+        )
+    ];
+};
+
+// Returns every value the expression selects, with its location in the document
+export const queryJsonPath = (document: unknown, expression: string): JsonPathMatch[] => {
+    let matches: JsonPathMatch[] = [{ value: document, path: [] }];
+
+    for (const selector of parseJsonPath(expression)) {
+        if (selector.type === 'child') {
+            matches = matches.flatMap(match => selectChildren(match, selector.keys));
+        } else if (selector.type === 'propertyName') {
+            matches = matches.filter(match => match.path.length > 0)
+                .map(match => ({ value: match.path[match.path.length - 1], path: match.path }));
+        } else if (selector.type === 'wildcard') {
+            matches = matches.flatMap(match =>
+                childEntries(match.value).map(([segment, child]) => ({ value: child, path: [...match.path, segment] }))
+            );
+        } else {
+            const keys = selector.keys;
+            matches = matches.flatMap(match => descendants(match)).flatMap(node =>
+                keys
+                    ? selectChildren(node, keys)
+                    : childEntries(node.value).map(([segment, child]) => ({ value: child, path: [...node.path, segment] }))
+            );
+        }
+    }
+
+    return matches;
+};
@@ -0,0 +1,369 @@
+// lib/lint-rules.ts
+import kebabCase from 'lodash/kebabCase';
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import { HTTP_METHODS } from '@/lib/spec-parser';
+import { lintDocument, LintRule, LintViolation, OPERATIONS_PATH, Ruleset } from '@/lib/linter';
+import type { CustomRuleset } from '@/lib/custom-rulesets';
+import { compileSpectralRuleset } from '@/lib/spectral';
+import { SECURITY_RULES, SECURITY_RULESET } from '@/lib/security-rules';
+import { refToSegments } from '@/lib/source-map';
+import { asArray, asObject, isObject, JsonObject, valueAt } from '@/lib/spec-document';
+
+const isBlank = (value: unknown) => typeof value !== 'string' || value.trim() === '';
+
+const KEBAB_CASE_SEGMENT = /^[a-z0-9]+(-[a-z0-9]+)*(\.[a-z0-9]+)?$/;
+const PATH_PARAMETER_SEGMENT = /^\{[^{}]+\}$/;
+const PATH_TEMPLATE = /\{([^{}]*)\}/g;
+
+// Names templated in a path, e.g. ['userId', 'postId'] for '/users/{userId}/posts/{postId}'
+const templateNames = (path: string) => Array.from(path.matchAll(PATH_TEMPLATE), match => match[1]);
+
+// Follows a local $ref such as '#/components/parameters/Id'
+const resolveLocal = (document: unknown, value: unknown) => {
+    const ref = asObject(value).$ref;
+    if (typeof ref !== 'string' || !ref.startsWith('#/')) return value;
+    return valueAt(document, refToSegments(ref));
+};
+
+// Every operation of a map of path items, followed by the operations of its callbacks, with its location
+const operationsIn = (pathItems: unknown, segments: string[]): { operationId: unknown; segments: string[] }[] =>
+    Object.entries(asObject(pathItems)).flatMap(([key, pathItem]) =>
+        HTTP_METHODS.flatMap(method => {
+            const operation = valueAt(pathItem, [method]);
+            if (!isObject(operation)) return [];
+
+            const location = [...segments, key, method];
+            return [
+                { operationId: operation.operationId, segments: location },
+                ...Object.entries(asObject(operation.callbacks)).flatMap(([name, callback]) =>
+                    operationsIn(callback, [...location, 'callbacks', name])
+                )
+            ];
+        })
+    );
+
+// Path parameters declared in a parameter list, with their position in it
+const pathParametersOf = (document: unknown, parameters: unknown): { name: string; parameter: JsonObject; index: number }[] =>
+    asArray(parameters)
+        .map((value, index) => ({ parameter: asObject(resolveLocal(document, value)), index }))
+        .filter(({ parameter }) => parameter.in === 'path' && typeof parameter.name === 'string')
+        .map(({ parameter, index }) => ({ name: String(parameter.name), parameter, index }));
+
+// Checks one path item: every templated name has exactly one required path parameter, and no path parameter is left over
+const checkPathParameters = (document: unknown, path: string, pathItem: unknown): LintViolation[] => {
+    const violations: LintViolation[] = [];
+    const names = templateNames(path);
+
+    if (names.some(name => name.trim() === '')) {
+        violations.push({ message: `Path '${path}' has an empty parameter template`, path: [path] });
+    }
+    names.filter((name, index) => name && names.indexOf(name) !== index).forEach(name => {
+        violations.push({ message: `Path parameter '${name}' appears more than once in '${path}'`, path: [path] });
+    });
+
+    // Declarations at one level (path item or operation): duplicates, optional ones and ones missing from the template
+    const checkLevel = (declared: ReturnType<typeof pathParametersOf>, location: (string | number)[]) => {
+        declared.forEach(({ name, parameter, index }, position) => {
+            const parameterPath = [path, ...location, 'parameters', index];
+            if (declared.findIndex(other => other.name === name) !== position) {
+                violations.push({ message: `Path parameter '${name}' is declared more than once`, path: parameterPath });
+            } else if (!names.includes(name)) {
+                violations.push({ message: `Path parameter '${name}' is declared but '{${name}}' is not in the path '${path}'`, path: parameterPath });
+            } else if (parameter.required !== true) {
+                violations.push({ message: `Path parameter '${name}' must be required`, path: parameterPath });
+            }
+        });
+    };
+
+    const item = asObject(pathItem);
+    const pathLevel = pathParametersOf(document, item.parameters);
+    checkLevel(pathLevel, []);
+
+    const methods = HTTP_METHODS.filter(method => item[method]);
+    methods.forEach(method => {
+        const operationLevel = pathParametersOf(document, asObject(item[method]).parameters);
+        checkLevel(operationLevel, [method]);
+
+        const declared = new Set([...pathLevel, ...operationLevel].map(({ name }) => name));
+        Array.from(new Set(names)).filter(name => name && !declared.has(name)).forEach(name => {
+            violations.push({ message: `Path parameter '${name}' is not declared for ${method.toUpperCase()} ${path}`, path: [path, method] });
+        });
+    });
+
+    return violations;
+};
+
+// A path split into segments, with every template replaced by '{}' so parameter names do not matter
+const normalizeSegments = (path: string) =>
+    path.replace(/\/+$/, '').split('/').map(segment => segment.replace(PATH_TEMPLATE, '{}'));
+
+// Whether two paths of the same shape can match the same URL without either being more specific
+const isAmbiguous = (first: string[], second: string[]) => {
+    if (first.length !== second.length) return false;
+
+    let firstMoreSpecific = false;
+    let secondMoreSpecific = false;
+    for (let index = 0; index < first.length; index++) {
+        const [a, b] = [first[index], second[index]];
+        if (a === b) continue;
+        if (a === '{}') {
+            secondMoreSpecific = true;
+        } else if (b === '{}') {
+            firstMoreSpecific = true;
+        } else {
+            return false;
+        }
+    }
+    return firstMoreSpecific && secondMoreSpecific;
+};
+
+export const BUILT_IN_RULES: LintRule[] = [
+    {
+        id: 'info-description',
+        description: 'The API has a description',
+        given: '$.info',
+        severity: 'warn',
+        check: info => isBlank(asObject(info).description) ? 'API info is missing a description' : null
+    },
+    {
+        id: 'info-contact',
+        description: 'The API lists a contact',
+        given: '$.info',
+        severity: 'info',
+        check: info => !asObject(info).contact ? 'API info should include a contact object' : null
+    },
+    {
+        id: 'operation-operationId',
+        description: 'Every operation has an operationId',
+        given: OPERATIONS_PATH,
+        severity: 'warn',
+        check: operation => isBlank(asObject(operation).operationId) ? 'Operation is missing an operationId' : null
+    },
+    {
+        id: 'operation-operationId-unique',
+        description: 'operationIds are unique across the API',
+        given: '$',
+        severity: 'error',
+        check: document => {
+            // Endpoint ids are the kebab-cased operationId, so 'getUser' and 'get_user' collide as well.
+            // Paths, webhooks and callbacks share one namespace.
+            const seen = new Map<string, string>();
+            const violations: { message: string; path: string[] }[] = [];
+            const operations = [
+                ...operationsIn(valueAt(document, ['paths']), ['paths']),
+                ...operationsIn(valueAt(document, ['webhooks']), ['webhooks'])
+            ];
+
+            operations.forEach(({ operationId, segments }) => {
+                if (typeof operationId !== 'string') return;
+                const path = [...segments, 'operationId'];
+
+                const previous = seen.get(kebabCase(operationId));
+                if (previous === operationId) {
+                    violations.push({ message: `operationId '${operationId}' is used by more than one operation`, path });
+                } else if (previous !== undefined) {
+                    violations.push({ message: `operationId '${operationId}' is too similar to '${previous}'; both become the id '${kebabCase(operationId)}'`, path });
+                } else {
+                    seen.set(kebabCase(operationId), operationId);
+                }
+            });
+
+            return violations;
+        }
+    },
+    {
+        id: 'operation-description',
+        description: 'Every operation has a description',
+        given: OPERATIONS_PATH,
+        severity: 'warn',
+        check: operation => isBlank(asObject(operation).description) ? 'Operation is missing a description' : null
+    },
+    {
+        id: 'operation-summary',
+        description: 'Every operation has a summary',
+        given: OPERATIONS_PATH,
+        severity: 'info',
+        check: operation => isBlank(asObject(operation).summary) ? 'Operation is missing a summary' : null
+    },
+    {
+        id: 'operation-tags',
+        description: 'Every operation has at least one tag',
+        given: OPERATIONS_PATH,
+        severity: 'warn',
+        check: operation => asArray(asObject(operation).tags).length === 0 ? 'Operation has no tags' : null
+    },
+    {
+        id: 'operation-tag-defined',
+        description: 'Operation tags are declared in the top-level tags list',
+        given: OPERATIONS_PATH,
+        severity: 'warn',
+        check: (operation, { document }) => {
+            const declared = new Set(asArray(asObject(document).tags).map(tag => asObject(tag).name));
+            return asArray(asObject(operation).tags)
+                .flatMap((tag, index) => declared.has(tag)
+                    ? []
+                    : [{ message: `Tag '${tag}' is not declared in the top-level tags`, path: ['tags', index] }]);
+        }
+    },
+    {
+        id: 'tag-description',
+        description: 'Top-level tags have a description',
+        given: '$.tags[*]',
+        severity: 'info',
+        check: tag => isBlank(asObject(tag).description) ? `Tag '${asObject(tag).name}' is missing a description` : null
+    },
+    {
+        id: 'paths-kebab-case',
+        description: 'Path segments are kebab-case',
+        given: '$.paths',
+        severity: 'warn',
+        check: paths => Object.keys(asObject(paths))
+            .filter(path => path.split('/').filter(Boolean).some(segment =>
+                !PATH_PARAMETER_SEGMENT.test(segment) && !KEBAB_CASE_SEGMENT.test(segment)
+            ))
+            .map(path => ({ message: `Path '${path}' should use kebab-case segments`, path: [path] }))
+    },
+    {
+        id: 'path-keys-no-trailing-slash',
+        description: 'Paths do not end with a slash',
+        given: '$.paths',
+        severity: 'warn',
+        check: paths => Object.keys(asObject(paths))
+            .filter(path => path.length > 1 && path.endsWith('/'))
+            .map(path => ({ message: `Path '${path}' should not end with a slash`, path: [path] }))
+    },
+    {
+        id: 'path-params',
+        description: 'Path templates and path parameters match',
+        given: '$.paths',
+        severity: 'error',
+        check: (paths, { document }) => Object.entries(asObject(paths))
+            .flatMap(([path, pathItem]) => checkPathParameters(document, path, pathItem))
+    },
+    {
+        id: 'path-templates-unique',
+        description: 'No two paths differ only by parameter names',
+        given: '$.paths',
+        severity: 'error',
+        check: paths => {
+            const seen = new Map<string, string>();
+            return Object.keys(asObject(paths)).flatMap(path => {
+                const key = normalizeSegments(path).join('/');
+                const previous = seen.get(key);
+                if (previous === undefined) {
+                    seen.set(key, path);
+                    return [];
+                }
+                return [{ message: `Path '${path}' is equivalent to '${previous}'; only the parameter names differ`, path: [path] }];
+            });
+        }
+    },
+    {
+        id: 'no-ambiguous-paths',
+        description: 'Paths cannot match the same URL',
+        given: '$.paths',
+        severity: 'warn',
+        check: paths => {
+            const entries = Object.keys(asObject(paths)).map(path => ({ path, segments: normalizeSegments(path) }));
+            return entries.flatMap((entry, index) => entries.slice(0, index)
+                .filter(previous => isAmbiguous(previous.segments, entry.segments))
+                .map(previous => ({ message: `Path '${entry.path}' is ambiguous with '${previous.path}'`, path: [entry.path] })));
+        }
+    },
+    {
+        id: 'parameter-description',
+        description: 'Parameters have a description',
+        given: [`${OPERATIONS_PATH}.parameters[*]`, '$.paths[*].parameters[*]', '$.components.parameters[*]'],
+        severity: 'info',
+        check: parameter => isObject(parameter) && !parameter.$ref && isBlank(parameter.description)
+            ? `Parameter '${parameter.name}' is missing a description`
+            : null
+    },
+    ...SECURITY_RULES
+];
+
+export const DEFAULT_RULESET_ID = 'recommended';
+
+export const BUILT_IN_RULESETS: Ruleset[] = [
+    {
+        id: 'recommended',
+        name: 'Recommended',
+        description: 'Style rules most teams agree on',
+        rules: {
+            'info-description': true,
+            'operation-operationId': true,
+            'operation-operationId-unique': true,
+            'operation-description': true,
+            'operation-summary': true,
+            'operation-tags': true,
+            'operation-tag-defined': true,
+            'paths-kebab-case': true,
+            'path-keys-no-trailing-slash': true,
+            'path-params': true,
+            'path-templates-unique': true,
+            'no-ambiguous-paths': true,
+            'security-operation-defined': true,
+            'security-scheme-defined': true,
+            'security-api-key-in-query': true,
+            'security-servers-https': true,
+            'security-schemes-https': true
+        }
+    },
+    {
+        id: 'strict',
+        name: 'Strict',
+        description: 'Every rule enabled, style issues reported as errors',
+        extends: ['recommended', SECURITY_RULESET.id],
+        rules: {
+            'info-description': 'error',
+            'info-contact': 'warn',
+            'operation-operationId': 'error',
+            'operation-description': 'error',
+            'operation-summary': 'warn',
+            'operation-tags': 'error',
+            'operation-tag-defined': 'error',
+            'tag-description': 'warn',
+            'paths-kebab-case': 'error',
+            'path-keys-no-trailing-slash': 'error',
+            'no-ambiguous-paths': 'error',
+            'parameter-description': 'warn'
+        }
+    },
+    SECURITY_RULESET,
+    {
+        id: 'minimal',
+        name: 'Minimal',
+        description: 'Only problems that break code generation',
+        rules: {
+            'operation-operationId-unique': true,
+            'path-params': true,
+            'path-templates-unique': true
+        }
+    },
+    {
+        id: 'off',
+        name: 'Off',
+        description: 'No style rules',
+        rules: {}
+    }
+];
+
+// Lints a document with a built-in ruleset, or with one of the user's imported rulesets
+export const lintSpec = (
+    document: unknown,
+    rulesetId: string = DEFAULT_RULESET_ID,
+    customRulesets: CustomRuleset[] = []
+): ValidationError[] => {
+    const custom = customRulesets.find(candidate => candidate.id === rulesetId);
+    if (!custom) return lintDocument(document, rulesetId, BUILT_IN_RULESETS, BUILT_IN_RULES);
+
+    // Rules defined by the imported ruleset replace built-in rules with the same id
+    const { ruleset, rules } = compileSpectralRuleset(custom);
+    const overridden = new Set(rules.map(rule => rule.id));
+    return lintDocument(
+        document,
+        ruleset.id,
+        [...BUILT_IN_RULESETS, ruleset],
+        [...BUILT_IN_RULES.filter(rule => !overridden.has(rule.id)), ...rules]
+    );
+};
@@ -0,0 +1,123 @@
+// lib/linter.ts
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import { JsonPathSegment, queryJsonPath } from '@/lib/json-path';
+import { segmentsToPointer } from '@/lib/source-map';
+import { HTTP_METHODS } from '@/lib/spec-parser';
+
+// Every operation under paths, whatever the spec version
+export const OPERATIONS_PATH = `$.paths[*][${HTTP_METHODS.join(',')}]`;
+
+// Types
+export type LintSeverity = 'error' | 'warn' | 'info' | 'off';
+
+export interface LintContext {
+    document: unknown;
+    // Location of the value being checked
+    path: JsonPathSegment[];
+}
+
+// A message, optionally pointing below the value that was checked
+export type LintViolation = string | { message: string; path?: JsonPathSegment[] };
+
+export interface LintRule {
+    id: string;
+    description: string;
+    // JSONPath expression(s) selecting the values the rule checks
+    given: string | string[];
+    // Severity used when a ruleset enables the rule without overriding it
+    severity: Exclude<LintSeverity, 'off'>;
+    // Grouping shown with the results, e.g. an OWASP API Security Top 10 category
+    category?: string;
+    check: (value: unknown, context: LintContext) => LintViolation | LintViolation[] | null | undefined;
+}
+
+export interface Ruleset {
+    id: string;
+    name: string;
+    description?: string;
+    // Rulesets whose rule settings are inherited, in order; later entries win
+    extends?: string[];
+    // Rule ids mapped to a severity, or `true` for the rule's default severity
+    rules: Record<string, LintSeverity | true>;
+}
+
+const toValidationSeverity = (severity: Exclude<LintSeverity, 'off'>): ValidationError['severity'] =>
+    severity === 'warn' ? 'warning' : severity;
+
+// Flattens a ruleset and everything it extends into the effective severity of each rule
+export const resolveRuleSeverities = (
+    rulesetId: string,
+    rulesets: Ruleset[],
+    rules: LintRule[],
+    visited = new Set<string>()
+): Record<string, LintSeverity> => {
+    const ruleset = rulesets.find(candidate => candidate.id === rulesetId);
+    if (!ruleset || visited.has(rulesetId)) return {};
+    visited.add(rulesetId);
+
+    const severities: Record<string, LintSeverity> = {};
+    (ruleset.extends ?? []).forEach(parentId => {
+        Object.assign(severities, resolveRuleSeverities(parentId, rulesets, rules, visited));
+    });
+
+    Object.entries(ruleset.rules).forEach(([ruleId, setting]) => {
+        const rule = rules.find(candidate => candidate.id === ruleId);
+        if (rule) severities[ruleId] = setting === true ? rule.severity : setting;
+    });
+
+    return severities;
+};
+
+const runRule = (rule: LintRule, severity: Exclude<LintSeverity, 'off'>, document: unknown): ValidationError[] => {
+    const expressions = Array.isArray(rule.given) ? rule.given : [rule.given];
+    const results: ValidationError[] = [];
+
+    expressions.forEach(expression => {
+        queryJsonPath(document, expression).forEach(match => {
+            let outcome: ReturnType<LintRule['check']>;
+            try {
+                outcome = rule.check(match.value, { document, path: match.path });
+            } catch (ruleError) {
+                const message = ruleError instanceof Error ? ruleError.message : String(ruleError);
+                outcome = `Rule failed to run: ${message}`;
+            }
+            if (!outcome) return;
+
+            (Array.isArray(outcome) ? outcome : [outcome]).forEach(violation => {
+                const { message, path = [] } = typeof violation === 'string' ? { message: violation } : violation;
+                const segments = [...match.path, ...path];
+                results.push({
+                    path: segments.join('.') || undefined,
+                    pointer: segmentsToPointer(segments),
+                    rule: rule.id,
+                    category: rule.category,
+                    code: 'LINT_VIOLATION',
+                    message,
+                    severity: toValidationSeverity(severity)
+                });
+            });
+        });
+    });
+
+    return results;
+};
+
+// Runs every rule the ruleset enables against a parsed (unresolved) document
+export const lintDocument = (document: unknown, rulesetId: string, rulesets: Ruleset[], rules: LintRule[]): ValidationError[] => {
+    if (!document || typeof document !== 'object') return [];
+
+    const severities = resolveRuleSeverities(rulesetId, rulesets, rules);
+
+    return rules.flatMap(rule => {
+        const severity = severities[rule.id];
+        if (!severity || severity === 'off') return [];
+
+        try {
+            return runRule(rule, severity, document);
+        } catch (engineError) {
+            // An invalid `given` expression disables the rule rather than the whole lint run
+            const message = engineError instanceof Error ? engineError.message : String(engineError);
+            return [{ rule: rule.id, code: 'LINT_VIOLATION' as const, message: `Rule ${rule.id} is misconfigured: ${message}`, severity: 'warning' as const }];
+        }
+    });
+};
@@ -0,0 +1,155 @@
+// lib/meta-schema.ts
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+import AjvDraft04 from 'ajv-draft-04';
+import { openapi } from '@readme/openapi-schemas';
+import cloneDeep from 'lodash/cloneDeep';
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import { createError } from '@/lib/errors';
+import { pointerToSegments, segmentsToPointer } from '@/lib/source-map';
+import { asObject, isObject, JsonObject, valueAt } from '@/lib/spec-document';
+
+export type MetaSchemaVersion = '2.0' | '3.0' | '3.1';
+
+// Very broken documents produce thousands of errors; the first ones are enough to act on
+const MAX_SCHEMA_ERRORS = 100;
+
+const AJV_OPTIONS = { allErrors: true, strict: false, validateFormats: false };
+
+// Compiled validators are reused across calls, validation runs on every keystroke in the editor
+const validators = new Map<MetaSchemaVersion, ValidateFunction>();
+
+// Ajv does not follow the $dynamicRef used by the 3.1 schema, so schema objects are pointed at the plain definition
+// https://github.com/OAI/OpenAPI-Specification/issues/2689
+const openApi31Schema = () => {
+    const schema: JsonObject = cloneDeep(openapi.v31legacy);
+    const definitions = asObject(schema.$defs);
+    const schemaDefinition = asObject(definitions.schema);
+    delete schemaDefinition.$dynamicAnchor;
+
+    // Object and key of every place the schema definition is referenced from
+    const schemaSlots: [string[], string][] = [
+        [['components', 'properties', 'schemas'], 'additionalProperties'],
+        [['header', 'dependentSchemas', 'schema', 'properties'], 'schema'],
+        [['media-type', 'properties'], 'schema'],
+        [['parameter', 'properties'], 'schema']
+    ];
+    schemaSlots.forEach(([segments, key]) => {
+        asObject(valueAt(definitions, segments))[key] = schemaDefinition;
+    });
+    return schema;
+};
+
+const getValidator = (version: MetaSchemaVersion): ValidateFunction => {
+    let validate = validators.get(version);
+    if (!validate) {
+        if (version === '3.1') {
+            validate = new Ajv2020(AJV_OPTIONS).compile(openApi31Schema());
+        } else {
+            validate = new AjvDraft04(AJV_OPTIONS).compile(version === '2.0' ? openapi.v2 : openapi.v3);
+        }
+        validators.set(version, validate);
+    }
+    return validate;
+};
+
+export const detectMetaSchemaVersion = (spec: unknown): MetaSchemaVersion | null => {
+    if (!isObject(spec)) return null;
+    if (typeof spec.swagger === 'string' && spec.swagger.startsWith('2.')) return '2.0';
+    if (typeof spec.openapi === 'string' && spec.openapi.startsWith('3.0')) return '3.0';
+    if (typeof spec.openapi === 'string' && spec.openapi.startsWith('3.1')) return '3.1';
+    return null;
+};
+
+// Wrapper errors that only repeat a more specific error reported further down
+const NOISE_MESSAGES = ["must have required property '$ref'", 'must match exactly one schema in oneOf', 'must match a schema in anyOf'];
+
+// Keeps only the deepest error of each lineage, e.g. a typo in `enum` rather than every schema it failed to match
+export const reduceSchemaErrors = (errors: ErrorObject[]) => {
+    const meaningful = errors.filter(schemaError => !NOISE_MESSAGES.includes(schemaError.message ?? ''));
+    const candidates = meaningful.length ? meaningful : errors;
+
+    const reduced: ErrorObject[] = [];
+    candidates.forEach(schemaError => {
+        const isAncestor = candidates.some(other =>
+            other !== schemaError && other.instancePath.startsWith(`${schemaError.instancePath}/`)
+        );
+        if (isAncestor) return;
+
+        const index = reduced.findIndex(kept =>
+            kept.instancePath === schemaError.instancePath && kept.keyword === schemaError.keyword
+        );
+        if (index === -1) {
+            reduced.push(schemaError);
+        } else if (schemaError.keyword === 'enum') {
+            // oneOf branches (e.g. parameter locations) each report their own enum; merge them into one
+            const allowedValues = [...reduced[index].params.allowedValues, ...schemaError.params.allowedValues];
+            reduced[index] = { ...reduced[index], params: { allowedValues: Array.from(new Set(allowedValues)) } };
+        }
+    });
+    return reduced;
+};
+
+// The value the schema expected at the failing location
+const expectedValue = (schemaError: ErrorObject): unknown => {
+    const { params } = schemaError;
+    switch (schemaError.keyword) {
+        case 'required': return params.missingProperty;
+        case 'type': return params.type;
+        case 'enum': return params.allowedValues;
+        case 'const': return params.allowedValue;
+        case 'pattern': return params.pattern;
+        case 'format': return params.format;
+        case 'additionalProperties': return 'no additional properties';
+        default: return params.limit ?? params.comparison ?? undefined;
+    }
+};
+
+const describeSchemaError = (schemaError: ErrorObject, expected: unknown) => {
+    switch (schemaError.keyword) {
+        case 'required':
+            return `Missing required property '${expected}'`;
+        case 'additionalProperties':
+            return `Unexpected property '${schemaError.params.additionalProperty}'`;
+        case 'enum':
+            return `Value must be one of: ${(expected as unknown[]).map(value => JSON.stringify(value)).join(', ')}`;
+        default:
+            return `Value ${schemaError.message}`;
+    }
+};
+
+export const toValidationError = (schemaError: ErrorObject): ValidationError => {
+    const segments = pointerToSegments(schemaError.instancePath);
+    // Point at the offending property itself when the parent object is what failed
+    if (schemaError.keyword === 'additionalProperties') segments.push(schemaError.params.additionalProperty);
+
+    const expected = expectedValue(schemaError);
+    const pathSegments = schemaError.keyword === 'required' ? [...segments, String(expected)] : segments;
+
+    return createError('SCHEMA_VIOLATION', describeSchemaError(schemaError, expected), {
+        path: pathSegments.join('.') || undefined,
+        pointer: segmentsToPointer(segments),
+        keyword: schemaError.keyword,
+        expected
+    });
+};
+
+// Validates a document against the official OpenAPI 2.0, 3.0 or 3.1 JSON schema
+export const validateAgainstMetaSchema = (spec: unknown): ValidationError[] => {
+    const version = detectMetaSchemaVersion(spec);
+    if (!version) return [];
+
+    const validate = getValidator(version);
+    if (validate(spec) || !validate.errors) return [];
+
+    const errors = reduceSchemaErrors(validate.errors).map(toValidationError);
+    if (errors.length <= MAX_SCHEMA_ERRORS) return errors;
+
+    return [
+        ...errors.slice(0, MAX_SCHEMA_ERRORS),
+        {
+            message: `${errors.length - MAX_SCHEMA_ERRORS} more schema errors not shown. Fix the ones above and validate again.`,
+            severity: 'warning'
+        }
+    ];
+};
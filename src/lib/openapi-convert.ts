@@ -0,0 +1,797 @@
+// lib/openapi-convert.ts
+import cloneDeep from 'lodash/cloneDeep';
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import { asArray, asObject, asString, isObject, JsonObject } from '@/lib/spec-document';
+
+// Types
+export type OpenAPITargetVersion = '3.0.3' | '3.1.0';
+
+export interface ConversionResult {
+    spec: unknown;
+    // Everything that could not be carried over as-is
+    issues: ValidationError[];
+}
+
+// Swagger 2.0 -> OpenAPI 3.x
+
+// Keywords that move unchanged from a Swagger 2.0 parameter or header into its schema
+const SCHEMA_KEYWORDS = [
+    'type', 'format', 'items', 'default', 'enum', 'maximum', 'exclusiveMaximum', 'minimum',
+    'exclusiveMinimum', 'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems',
+    'uniqueItems', 'multipleOf'
+];
+
+const FORM_MEDIA_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data'];
+
+const isExtension = (key: string) => key.startsWith('x-');
+
+const copyExtensions = (source: unknown, target: JsonObject) => {
+    const fields = asObject(source);
+    Object.keys(fields).filter(isExtension).forEach(key => {
+        target[key] = fields[key];
+    });
+    return target;
+};
+
+// Decodes the last segment of a local reference such as '#/parameters/limit'
+const refName = (ref: string) => ref.split('/').pop()?.replace(/~1/g, '/').replace(/~0/g, '~') ?? '';
+
+interface ConversionContext {
+    source: JsonObject;
+    issues: ValidationError[];
+}
+
+const report = (ctx: ConversionContext, path: string, message: string, severity: 'error' | 'warning' = 'warning') => {
+    ctx.issues.push({ path, message, severity });
+};
+
+// Rewrites local Swagger 2.0 references to their components equivalent
+const convertRef = (ctx: ConversionContext, ref: string, path: string): string => {
+    if (!ref.startsWith('#/')) {
+        report(ctx, path, `External reference "${ref}" was left unchanged; update the referenced file separately`);
+        return ref;
+    }
+    if (ref.startsWith('#/definitions/')) {
+        return ref.replace('#/definitions/', '#/components/schemas/');
+    }
+    if (ref.startsWith('#/parameters/')) {
+        const parameter = asObject(asObject(ctx.source.parameters)[refName(ref)]);
+        return parameter.in === 'body'
+            ? ref.replace('#/parameters/', '#/components/requestBodies/')
+            : ref.replace('#/parameters/', '#/components/parameters/');
+    }
+    if (ref.startsWith('#/responses/')) {
+        return ref.replace('#/responses/', '#/components/responses/');
+    }
+    return ref;
+};
+
+const convertSchema = (ctx: ConversionContext, schema: unknown, path: string): unknown => {
+    if (Array.isArray(schema)) return schema.map((item, index) => convertSchema(ctx, item, `${path}.${index}`));
+    if (!isObject(schema)) return schema;
+
+    const converted: JsonObject = {};
+    Object.entries(schema).forEach(([key, value]) => {
+        switch (key) {
+            case '$ref':
+                converted.$ref = typeof value === 'string' ? convertRef(ctx, value, path) : value;
+                break;
+            case 'x-nullable':
+                if (value === true) converted.nullable = true;
+                break;
+            case 'discriminator':
+                // Swagger 2.0 discriminators are a bare property name
+                converted.discriminator = typeof value === 'string' ? { propertyName: value } : value;
+                break;
+            case 'properties':
+            case 'definitions':
+            case 'patternProperties':
+                converted[key] = Object.fromEntries(
+                    Object.entries(asObject(value)).map(([name, subSchema]) => [name, convertSchema(ctx, subSchema, `${path}.${key}.${name}`)])
+                );
+                break;
+            case 'items':
+            case 'additionalProperties':
+            case 'not':
+            case 'allOf':
+            case 'anyOf':
+            case 'oneOf':
+                converted[key] = typeof value === 'object' ? convertSchema(ctx, value, `${path}.${key}`) : value;
+                break;
+            default:
+                converted[key] = value;
+        }
+    });
+
+    if (converted.type === 'file') {
+        converted.type = 'string';
+        converted.format = 'binary';
+    }
+
+    return converted;
+};
+
+// Builds an OpenAPI 3 schema from the inline type keywords of a parameter, header or items object
+const inlineSchema = (ctx: ConversionContext, source: JsonObject, path: string): JsonObject => {
+    const schema: JsonObject = {};
+    SCHEMA_KEYWORDS.forEach(keyword => {
+        if (source[keyword] !== undefined) schema[keyword] = source[keyword];
+    });
+    if (isObject(schema.items)) {
+        if (schema.items.collectionFormat) {
+            report(ctx, `${path}.items`, 'Nested collectionFormat cannot be expressed in OpenAPI 3 and was dropped');
+        }
+        schema.items = schema.items.$ref ? convertSchema(ctx, schema.items, `${path}.items`) : inlineSchema(ctx, schema.items, `${path}.items`);
+    }
+    if (source['x-nullable'] === true) schema['x-nullable'] = true;
+    return asObject(convertSchema(ctx, schema, path));
+};
+
+// Maps collectionFormat to the equivalent style/explode pair for the parameter location
+const serialization = (ctx: ConversionContext, param: JsonObject, path: string) => {
+    const format = param.collectionFormat ?? (param.type === 'array' ? 'csv' : undefined);
+    if (!format) return {};
+
+    switch (format) {
+        case 'csv':
+            return param.in === 'query' || param.in === 'cookie' ? { style: 'form', explode: false } : { style: 'simple' };
+        case 'multi':
+            return { style: 'form', explode: true };
+        case 'ssv':
+            return { style: 'spaceDelimited', explode: false };
+        case 'pipes':
+            return { style: 'pipeDelimited', explode: false };
+        default:
+            report(ctx, path, `collectionFormat "${format}" has no OpenAPI 3 equivalent; the parameter now uses comma separation`);
+            return param.in === 'query' ? { style: 'form', explode: false } : { style: 'simple' };
+    }
+};
+
+const convertParameter = (ctx: ConversionContext, param: JsonObject, path: string): JsonObject => {
+    if (typeof param.$ref === 'string') return { $ref: convertRef(ctx, param.$ref, path) };
+
+    const converted: JsonObject = {
+        name: param.name,
+        in: param.in,
+        ...(param.description !== undefined ? { description: param.description } : {}),
+        ...(param.required !== undefined ? { required: param.required } : {}),
+        ...(param.allowEmptyValue !== undefined ? { allowEmptyValue: param.allowEmptyValue } : {}),
+        ...serialization(ctx, param, path),
+        schema: inlineSchema(ctx, param, `${path}.schema`)
+    };
+    if (param['x-example'] !== undefined) converted.example = param['x-example'];
+
+    return copyExtensions(param, converted);
+};
+
+const mediaTypesOrDefault = (types: unknown, fallback: unknown): string[] => {
+    const list = types ?? fallback;
+    return Array.isArray(list) && list.length > 0 ? list : ['application/json'];
+};
+
+// A body parameter becomes a request body offered in every consumed media type
+const bodyToRequestBody = (ctx: ConversionContext, param: JsonObject, consumes: string[], path: string) => {
+    const schema = convertSchema(ctx, param.schema, `${path}.schema`);
+    const content: Record<string, JsonObject> = Object.fromEntries(consumes.map(type => [type, { schema }]));
+    const requestBody: JsonObject = {
+        ...(param.description !== undefined ? { description: param.description } : {}),
+        content,
+        ...(param.required !== undefined ? { required: param.required } : {})
+    };
+    if (isObject(param['x-examples'])) {
+        Object.entries(param['x-examples']).forEach(([type, example]) => {
+            if (content[type]) content[type].example = example;
+        });
+    }
+    return copyExtensions(param, requestBody);
+};
+
+// formData parameters are merged into a single object schema
+const formDataToRequestBody = (ctx: ConversionContext, params: JsonObject[], consumes: string[], path: string) => {
+    const hasFile = params.some(param => param.type === 'file');
+    const formTypes = consumes.filter(type => FORM_MEDIA_TYPES.includes(type));
+    const mediaTypes = formTypes.length > 0
+        ? formTypes
+        : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+    if (hasFile && !mediaTypes.includes('multipart/form-data')) {
+        report(ctx, path, 'File upload parameters require multipart/form-data but the operation does not consume it');
+    }
+
+    const properties: JsonObject = {};
+    const schema: JsonObject = { type: 'object', properties };
+    const required: string[] = [];
+    params.forEach(param => {
+        const name = String(param.name);
+        const property = inlineSchema(ctx, param, `${path}.${name}`);
+        if (param.description) property.description = param.description;
+        properties[name] = property;
+        if (param.required) required.push(name);
+    });
+    if (required.length > 0) schema.required = required;
+
+    return {
+        content: Object.fromEntries(mediaTypes.map(type => [type, { schema }])),
+        ...(required.length > 0 ? { required: true } : {})
+    };
+};
+
+const convertHeaders = (ctx: ConversionContext, headers: unknown, path: string) => {
+    return Object.fromEntries(Object.entries(asObject(headers)).map(([name, value]) => {
+        const header = asObject(value);
+        return [name, copyExtensions(header, {
+            ...(header.description !== undefined ? { description: header.description } : {}),
+            schema: inlineSchema(ctx, header, `${path}.${name}`)
+        })];
+    }));
+};
+
+const convertResponse = (ctx: ConversionContext, response: JsonObject, produces: string[], path: string): JsonObject => {
+    if (typeof response.$ref === 'string') return { $ref: convertRef(ctx, response.$ref, path) };
+
+    const converted: JsonObject = { description: response.description ?? '' };
+    if (response.headers) converted.headers = convertHeaders(ctx, response.headers, `${path}.headers`);
+
+    if (response.schema) {
+        const schema = convertSchema(ctx, response.schema, `${path}.schema`);
+        converted.content = Object.fromEntries(produces.map(type => [type, { schema }]));
+    }
+    if (isObject(response.examples)) {
+        const content = asObject(converted.content);
+        Object.entries(response.examples).forEach(([type, example]) => {
+            content[type] = { ...asObject(content[type]), example };
+        });
+        converted.content = content;
+    }
+
+    return copyExtensions(response, converted);
+};
+
+// Looks through local parameter references so body/formData parameters can be recognized
+const dereferenceParameter = (ctx: ConversionContext, param: unknown): JsonObject => {
+    const parameter = asObject(param);
+    const ref = asString(parameter.$ref);
+    if (ref?.startsWith('#/parameters/')) {
+        const shared = asObject(ctx.source.parameters)[refName(ref)];
+        return isObject(shared) ? shared : parameter;
+    }
+    return parameter;
+};
+
+const convertOperation = (ctx: ConversionContext, operation: JsonObject, pathParameters: unknown[], path: string) => {
+    const converted: JsonObject = {};
+    const consumes = mediaTypesOrDefault(operation.consumes, ctx.source.consumes);
+    const produces = mediaTypesOrDefault(operation.produces, ctx.source.produces);
+
+    Object.entries(operation).forEach(([key, value]) => {
+        if (['parameters', 'responses', 'consumes', 'produces', 'schemes'].includes(key)) return;
+        converted[key] = value;
+    });
+
+    if (operation.schemes) {
+        report(ctx, `${path}.schemes`, 'Operation-level schemes are not supported in OpenAPI 3 and were dropped');
+    }
+
+    // Operation parameters override path parameters with the same name and location
+    const operationParameters = asArray(operation.parameters);
+    const overridden = new Set(operationParameters.map(param => {
+        const resolved = dereferenceParameter(ctx, param);
+        return `${resolved.in}:${resolved.name}`;
+    }));
+    const allParameters = [
+        ...pathParameters.filter(param => {
+            const resolved = dereferenceParameter(ctx, param);
+            return !overridden.has(`${resolved.in}:${resolved.name}`);
+        }),
+        ...operationParameters
+    ];
+
+    const parameters: JsonObject[] = [];
+    const formData: JsonObject[] = [];
+    allParameters.forEach((param, index) => {
+        const parameter = asObject(param);
+        const resolved = dereferenceParameter(ctx, parameter);
+        const ref = asString(parameter.$ref);
+        const paramPath = `${path}.parameters.${index}`;
+
+        if (resolved.in === 'body') {
+            converted.requestBody = ref
+                ? { $ref: convertRef(ctx, ref, paramPath) }
+                : bodyToRequestBody(ctx, resolved, consumes, paramPath);
+        } else if (resolved.in === 'formData') {
+            formData.push(resolved);
+        } else if (ref) {
+            parameters.push({ $ref: convertRef(ctx, ref, paramPath) });
+        } else {
+            parameters.push(convertParameter(ctx, parameter, paramPath));
+        }
+    });
+
+    if (formData.length > 0) {
+        if (converted.requestBody) {
+            report(ctx, path, 'Operation declares both body and formData parameters; the formData parameters were dropped', 'error');
+        } else {
+            converted.requestBody = formDataToRequestBody(ctx, formData, consumes, `${path}.requestBody`);
+        }
+    }
+    if (parameters.length > 0) converted.parameters = parameters;
+
+    converted.responses = Object.fromEntries(Object.entries(asObject(operation.responses)).map(([status, response]) => [
+        status,
+        isExtension(status) ? response : convertResponse(ctx, asObject(response), produces, `${path}.responses.${status}`)
+    ]));
+
+    return converted;
+};
+
+const convertPaths = (ctx: ConversionContext, paths: unknown) => {
+    return Object.fromEntries(Object.entries(asObject(paths)).map(([path, pathItem]) => {
+        if (isExtension(path)) return [path, pathItem];
+
+        const location = `paths.${path}`;
+        const converted: JsonObject = {};
+        const fields = asObject(pathItem);
+        const pathParameters = asArray(fields.parameters);
+
+        Object.entries(fields).forEach(([key, value]) => {
+            if (key === 'parameters') {
+                // Only plain parameters stay on the path item; body and formData move into each operation
+                const kept = pathParameters
+                    .filter(param => !['body', 'formData'].includes(String(dereferenceParameter(ctx, param).in)))
+                    .map((param, index) => convertParameter(ctx, asObject(param), `${location}.parameters.${index}`));
+                if (kept.length > 0) converted.parameters = kept;
+            } else if (key === '$ref') {
+                report(ctx, `${location}.$ref`, 'Path item references were copied unchanged and may need manual conversion');
+                converted.$ref = value;
+            } else if (isExtension(key)) {
+                converted[key] = value;
+            } else {
+                // Body and formData parameters declared on the path apply to every operation
+                const inherited = pathParameters.filter(param => ['body', 'formData'].includes(String(dereferenceParameter(ctx, param).in)));
+                converted[key] = convertOperation(ctx, asObject(value), inherited, `${location}.${key}`);
+            }
+        });
+
+        return [path, converted];
+    }));
+};
+
+const convertSecuritySchemes = (ctx: ConversionContext, definitions: unknown) => {
+    return Object.fromEntries(Object.entries(asObject(definitions)).map(([name, value]) => {
+        const path = `securityDefinitions.${name}`;
+        const definition = asObject(value);
+        const base = copyExtensions(definition, definition.description ? { description: definition.description } : {});
+
+        switch (definition.type) {
+            case 'basic':
+                return [name, { ...base, type: 'http', scheme: 'basic' }];
+            case 'apiKey':
+                return [name, { ...base, type: 'apiKey', name: definition.name, in: definition.in }];
+            case 'oauth2': {
+                const scopes = definition.scopes ?? {};
+                const flows: Record<string, JsonObject> = {
+                    implicit: { implicit: { authorizationUrl: definition.authorizationUrl, scopes } },
+                    password: { password: { tokenUrl: definition.tokenUrl, scopes } },
+                    application: { clientCredentials: { tokenUrl: definition.tokenUrl, scopes } },
+                    accessCode: { authorizationCode: { authorizationUrl: definition.authorizationUrl, tokenUrl: definition.tokenUrl, scopes } }
+                };
+                const flow = flows[String(definition.flow)];
+                if (!flow) {
+                    report(ctx, path, `Unknown OAuth2 flow "${definition.flow}" could not be converted`, 'error');
+                    return [name, { ...base, type: 'oauth2', flows: {} }];
+                }
+                return [name, { ...base, type: 'oauth2', flows: flow }];
+            }
+            default:
+                report(ctx, path, `Unknown security scheme type "${definition.type}" was copied unchanged`, 'error');
+                return [name, value];
+        }
+    }));
+};
+
+const convertServers = (ctx: ConversionContext) => {
+    const { host, basePath = '/' } = ctx.source;
+    if (!host) {
+        return [{ url: basePath }];
+    }
+    const schemes = asArray(ctx.source.schemes);
+    if (schemes.length === 0) {
+        report(ctx, 'schemes', 'No schemes declared; the server URL assumes https');
+    }
+    return (schemes.length > 0 ? schemes : ['https']).map(scheme => ({
+        url: `${scheme}://${host}${basePath === '/' ? '' : basePath}`
+    }));
+};
+
+const convertDocument = (ctx: ConversionContext): ConversionResult => {
+    const source = ctx.source;
+    const spec: JsonObject = {
+        openapi: '3.0.3',
+        info: source.info
+    };
+
+    if (source.externalDocs) spec.externalDocs = source.externalDocs;
+    spec.servers = convertServers(ctx);
+    if (source.tags) spec.tags = source.tags;
+    if (source.security) spec.security = source.security;
+    spec.paths = convertPaths(ctx, source.paths);
+
+    const components: JsonObject = {};
+    if (source.definitions) {
+        components.schemas = Object.fromEntries(Object.entries(asObject(source.definitions)).map(([name, schema]) => [
+            name,
+            convertSchema(ctx, schema, `definitions.${name}`)
+        ]));
+    }
+
+    const parameters: JsonObject = {};
+    const requestBodies: JsonObject = {};
+    Object.entries(asObject(source.parameters)).forEach(([name, value]) => {
+        const path = `parameters.${name}`;
+        const param = asObject(value);
+        if (param.in === 'body') {
+            requestBodies[name] = bodyToRequestBody(ctx, param, mediaTypesOrDefault(undefined, source.consumes), path);
+        } else if (param.in === 'formData') {
+            report(ctx, path, 'Shared formData parameters have no OpenAPI 3 component equivalent; they were inlined into the operations using them');
+        } else {
+            parameters[name] = convertParameter(ctx, param, path);
+        }
+    });
+    if (Object.keys(parameters).length > 0) components.parameters = parameters;
+    if (Object.keys(requestBodies).length > 0) components.requestBodies = requestBodies;
+
+    if (source.responses) {
+        const produces = mediaTypesOrDefault(undefined, source.produces);
+        components.responses = Object.fromEntries(Object.entries(asObject(source.responses)).map(([name, response]) => [
+            name,
+            convertResponse(ctx, asObject(response), produces, `responses.${name}`)
+        ]));
+    }
+    if (source.securityDefinitions) {
+        components.securitySchemes = convertSecuritySchemes(ctx, source.securityDefinitions);
+    }
+    if (Object.keys(components).length > 0) spec.components = components;
+
+    copyExtensions(source, spec);
+
+    const handled = [
+        'swagger', 'info', 'host', 'basePath', 'schemes', 'consumes', 'produces', 'paths', 'definitions',
+        'parameters', 'responses', 'securityDefinitions', 'security', 'tags', 'externalDocs'
+    ];
+    Object.keys(source).filter(key => !handled.includes(key) && !isExtension(key)).forEach(key => {
+        report(ctx, key, `Unknown top-level field "${key}" was dropped`);
+    });
+
+    return { spec, issues: ctx.issues };
+};
+
+// Converts a Swagger 2.0 document into an OpenAPI 3.0 or 3.1 document
+export const convertSwagger2ToOpenAPI3 = (spec: unknown, targetVersion: OpenAPITargetVersion = '3.0.3'): ConversionResult => {
+    if (!isObject(spec) || spec.swagger !== '2.0') {
+        return {
+            spec,
+            issues: [{ message: 'Only Swagger 2.0 documents can be upgraded', severity: 'error' }]
+        };
+    }
+
+    const converted = convertDocument({ source: cloneDeep(spec), issues: [] });
+    if (targetVersion === '3.0.3') return converted;
+
+    // 3.1 output goes through the regular 3.0 -> 3.1 upgrade
+    const upgraded = convertOpenAPI30To31(converted.spec);
+    return { spec: upgraded.spec, issues: [...converted.issues, ...upgraded.issues] };
+};
+
+// OpenAPI 3.0 <-> 3.1
+
+// Keywords holding a single subschema, a list of subschemas, or a map of named subschemas
+const SUBSCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not', 'if', 'then', 'else', 'contains', 'propertyNames', 'unevaluatedItems', 'unevaluatedProperties'];
+const SUBSCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', 'dependentSchemas', '$defs', 'definitions'];
+
+// JSON Schema 2020-12 keywords that OpenAPI 3.0 schemas cannot express
+const UNSUPPORTED_IN_30 = [
+    '$defs', '$id', '$anchor', '$schema', '$comment', 'prefixItems', 'if', 'then', 'else', 'dependentSchemas',
+    'dependentRequired', 'unevaluatedItems', 'unevaluatedProperties', 'contains', 'minContains', 'maxContains',
+    'propertyNames', 'patternProperties'
+];
+
+type SchemaConverter = (schema: JsonObject, path: string, issues: ValidationError[]) => JsonObject;
+
+// Called on every object outside of schemas, with its own key and the key of the map or list holding it
+type DocumentVisitor = (node: JsonObject, path: string, key: string, container: string) => JsonObject;
+
+// Applies a single-level schema converter to a schema and all of its subschemas
+const walkSchema = (schema: unknown, path: string, issues: ValidationError[], convert: SchemaConverter): unknown => {
+    if (!isObject(schema)) return schema;
+
+    const converted = convert({ ...schema }, path, issues);
+
+    SUBSCHEMA_KEYWORDS.forEach(keyword => {
+        const value = converted[keyword];
+        if (value && typeof value === 'object') {
+            converted[keyword] = Array.isArray(value)
+                ? value.map((item, index) => walkSchema(item, `${path}.${keyword}.${index}`, issues, convert))
+                : walkSchema(value, `${path}.${keyword}`, issues, convert);
+        }
+    });
+    SUBSCHEMA_LIST_KEYWORDS.forEach(keyword => {
+        const list = converted[keyword];
+        if (Array.isArray(list)) {
+            converted[keyword] = list.map((item, index) => walkSchema(item, `${path}.${keyword}.${index}`, issues, convert));
+        }
+    });
+    SUBSCHEMA_MAP_KEYWORDS.forEach(keyword => {
+        const map = converted[keyword];
+        if (map && typeof map === 'object') {
+            converted[keyword] = Object.fromEntries(Object.entries(map).map(([name, subSchema]) => [
+                name,
+                walkSchema(subSchema, `${path}.${keyword}.${name}`, issues, convert)
+            ]));
+        }
+    });
+
+    return converted;
+};
+
+// Walks the document outside of schemas and converts every schema it finds.
+// Example values are opaque data and are never descended into.
+const walkDocument = (
+    node: unknown,
+    path: string,
+    issues: ValidationError[],
+    convertSchemaNode: SchemaConverter,
+    visit?: DocumentVisitor,
+    key = '',
+    container = ''
+): unknown => {
+    if (Array.isArray(node)) {
+        return node.map((item, index) => walkDocument(item, `${path}.${index}`, issues, convertSchemaNode, visit, String(index), key));
+    }
+    if (!isObject(node)) return node;
+
+    const current = visit ? visit({ ...node }, path, key, container) : { ...node };
+    Object.entries(current).forEach(([childKey, value]) => {
+        const childPath = path ? `${path}.${childKey}` : childKey;
+        if (childKey === 'example' || childKey === 'examples' || isExtension(childKey)) return;
+
+        if (childKey === 'schema') {
+            current[childKey] = walkSchema(value, childPath, issues, convertSchemaNode);
+        } else if (childKey === 'schemas' && path === 'components') {
+            current[childKey] = Object.fromEntries(Object.entries(asObject(value)).map(([name, schema]) => [
+                name,
+                walkSchema(schema, `${childPath}.${name}`, issues, convertSchemaNode)
+            ]));
+        } else {
+            current[childKey] = walkDocument(value, childPath, issues, convertSchemaNode, visit, childKey, key);
+        }
+    });
+    return current;
+};
+
+const upgradeSchema: SchemaConverter = (schema, path, issues) => {
+    if (schema.nullable !== undefined) {
+        const nullable = schema.nullable === true;
+        delete schema.nullable;
+
+        if (nullable) {
+            if (typeof schema.type === 'string') {
+                schema.type = [schema.type, 'null'];
+                if (Array.isArray(schema.enum) && !schema.enum.includes(null)) schema.enum = [...schema.enum, null];
+            } else if (schema.$ref || schema.allOf || schema.oneOf || schema.anyOf) {
+                // Without a type, nullability becomes an alternative
+                const { description, ...rest } = schema;
+                return {
+                    ...(description !== undefined ? { description } : {}),
+                    anyOf: [rest, { type: 'null' }]
+                };
+            } else {
+                issues.push({ path, message: 'nullable without a type has no direct 3.1 equivalent and was dropped', severity: 'warning' });
+            }
+        }
+    }
+
+    // Boolean exclusive bounds become numeric bounds
+    (['Minimum', 'Maximum'] as const).forEach(bound => {
+        const exclusive = `exclusive${bound}`;
+        const inclusive = bound.toLowerCase();
+        if (schema[exclusive] === true && schema[inclusive] !== undefined) {
+            schema[exclusive] = schema[inclusive];
+            delete schema[inclusive];
+        } else if (typeof schema[exclusive] === 'boolean') {
+            delete schema[exclusive];
+        }
+    });
+
+    if (schema.example !== undefined) {
+        schema.examples = [schema.example];
+        delete schema.example;
+    }
+
+    if (schema.type === 'string' && schema.format === 'base64') {
+        delete schema.format;
+        schema.contentEncoding = 'base64';
+    }
+
+    if (schema.$ref && Object.keys(schema).length > 1) {
+        issues.push({ path, message: 'Keywords next to $ref were ignored in 3.0 but apply in 3.1; check they are still intended', severity: 'warning' });
+    }
+
+    return schema;
+};
+
+const downgradeSchema: SchemaConverter = (schema, path, issues) => {
+    if (Array.isArray(schema.type)) {
+        const types = schema.type.filter(type => type !== 'null');
+        const nullable = types.length < schema.type.length;
+
+        if (types.length === 1) {
+            schema.type = types[0];
+        } else if (types.length === 0) {
+            delete schema.type;
+            issues.push({ path, message: 'A schema whose only type is "null" cannot be expressed in 3.0', severity: 'warning' });
+        } else {
+            delete schema.type;
+            const alternatives = types.map(type => ({ type }));
+            if (schema.oneOf === undefined) {
+                schema.oneOf = alternatives;
+            } else {
+                // Both constraints still apply, so an existing oneOf is combined with the types rather than merged
+                schema.allOf = [...asArray(schema.allOf), { oneOf: alternatives }, { oneOf: schema.oneOf }];
+                delete schema.oneOf;
+            }
+        }
+        if (nullable) schema.nullable = true;
+    } else if (schema.type === 'null') {
+        delete schema.type;
+        schema.nullable = true;
+        issues.push({ path, message: 'A schema whose only type is "null" cannot be expressed in 3.0', severity: 'warning' });
+    }
+
+    // A 3.1 "anyOf: [X, { type: 'null' }]" is the upgraded form of a nullable schema
+    if (Array.isArray(schema.anyOf)) {
+        const withoutNull = schema.anyOf.filter(option => !(isObject(option) && option.type === 'null' && Object.keys(option).length === 1));
+        if (withoutNull.length < schema.anyOf.length) {
+            schema.nullable = true;
+            if (withoutNull.length === 1 && !schema.type && !schema.$ref) {
+                delete schema.anyOf;
+                schema.allOf = [...asArray(schema.allOf), withoutNull[0]];
+            } else {
+                schema.anyOf = withoutNull;
+            }
+        }
+    }
+
+    if (schema.const !== undefined) {
+        schema.enum = [schema.const];
+        delete schema.const;
+    }
+
+    (['Minimum', 'Maximum'] as const).forEach(bound => {
+        const exclusive = `exclusive${bound}`;
+        const inclusive = bound.toLowerCase();
+        if (typeof schema[exclusive] === 'number') {
+            if (schema[inclusive] !== undefined) {
+                issues.push({ path, message: `Both ${inclusive} and ${exclusive} were set; only the exclusive bound was kept`, severity: 'warning' });
+            }
+            schema[inclusive] = schema[exclusive];
+            schema[exclusive] = true;
+        }
+    });
+
+    if (Array.isArray(schema.examples)) {
+        if (schema.examples.length > 1) {
+            issues.push({ path, message: `Only the first of ${schema.examples.length} schema examples was kept`, severity: 'warning' });
+        }
+        if (schema.examples.length > 0 && schema.example === undefined) schema.example = schema.examples[0];
+        delete schema.examples;
+    }
+
+    if (schema.contentEncoding !== undefined || schema.contentMediaType !== undefined) {
+        if (schema.contentEncoding === 'base64') {
+            schema.format = 'base64';
+        } else if (schema.contentMediaType === 'application/octet-stream' || schema.contentEncoding === undefined) {
+            schema.format = 'binary';
+        } else {
+            issues.push({ path, message: `contentEncoding "${schema.contentEncoding}" has no 3.0 equivalent and was dropped`, severity: 'warning' });
+        }
+        delete schema.contentEncoding;
+        delete schema.contentMediaType;
+    }
+
+    const dropped = UNSUPPORTED_IN_30.filter(keyword => schema[keyword] !== undefined);
+    if (dropped.length > 0) {
+        dropped.forEach(keyword => delete schema[keyword]);
+        issues.push({ path, message: `Unsupported in 3.0 and dropped: ${dropped.join(', ')}`, severity: 'warning' });
+    }
+
+    // 3.0 ignores everything next to $ref, so siblings move into an allOf wrapper
+    if (schema.$ref && Object.keys(schema).length > 1) {
+        const { $ref, ...siblings } = schema;
+        return { ...siblings, allOf: [{ $ref }, ...asArray(siblings.allOf)] };
+    }
+
+    return schema;
+};
+
+// Converts an OpenAPI 3.0.x document to 3.1.0
+export const convertOpenAPI30To31 = (spec: unknown): ConversionResult => {
+    if (!isObject(spec) || typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.0')) {
+        return { spec, issues: [{ message: 'Only OpenAPI 3.0.x documents can be converted to 3.1', severity: 'error' }] };
+    }
+
+    const issues: ValidationError[] = [];
+    const converted = asObject(walkDocument(cloneDeep(spec), '', issues, upgradeSchema));
+    converted.openapi = '3.1.0';
+
+    // A common 3.0 extension for what 3.1 calls webhooks
+    if (converted['x-webhooks'] && !converted.webhooks) {
+        converted.webhooks = walkDocument(spec['x-webhooks'], 'webhooks', issues, upgradeSchema);
+        delete converted['x-webhooks'];
+    }
+
+    return { spec: converted, issues };
+};
+
+// Maps and lists whose members may be Reference Objects, in operations and in components
+const REFERENCE_CONTAINERS = ['parameters', 'responses', 'requestBodies', 'headers', 'links', 'callbacks', 'securitySchemes'];
+
+// Converts an OpenAPI 3.1.x document to 3.0.3, reporting everything that is lost on the way
+export const convertOpenAPI31To30 = (spec: unknown): ConversionResult => {
+    if (!isObject(spec) || typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.1')) {
+        return { spec, issues: [{ message: 'Only OpenAPI 3.1.x documents can be converted to 3.0', severity: 'error' }] };
+    }
+
+    const issues: ValidationError[] = [];
+
+    // Reference objects in 3.0 cannot carry a summary or description. Path items are not Reference Objects:
+    // their $ref may sit next to operations, so only parameter, response, request body, header, link and
+    // callback positions are touched.
+    const dropReferenceSiblings: DocumentVisitor = (node, path, key, container) => {
+        if (key !== 'requestBody' && !REFERENCE_CONTAINERS.includes(container)) return node;
+        if (typeof node.$ref === 'string' && Object.keys(node).length > 1) {
+            issues.push({ path, message: 'Properties next to a $ref are not allowed in 3.0 and were dropped', severity: 'warning' });
+            return { $ref: node.$ref };
+        }
+        return node;
+    };
+
+    const converted = asObject(walkDocument(cloneDeep(spec), '', issues, downgradeSchema, dropReferenceSiblings));
+    converted.openapi = '3.0.3';
+
+    if (converted.webhooks) {
+        converted['x-webhooks'] = converted.webhooks;
+        delete converted.webhooks;
+        issues.push({ path: 'webhooks', message: 'Webhooks are not part of OpenAPI 3.0; they were moved to x-webhooks', severity: 'warning' });
+    }
+    if (!converted.paths) {
+        converted.paths = {};
+        issues.push({ path: 'paths', message: 'OpenAPI 3.0 requires a paths object; an empty one was added', severity: 'warning' });
+    }
+    if (converted.jsonSchemaDialect) {
+        delete converted.jsonSchemaDialect;
+        issues.push({ path: 'jsonSchemaDialect', message: 'jsonSchemaDialect is not supported in 3.0 and was dropped', severity: 'warning' });
+    }
+    const info = asObject(converted.info);
+    if (info.summary) {
+        delete info.summary;
+        issues.push({ path: 'info.summary', message: 'info.summary is not supported in 3.0 and was dropped', severity: 'warning' });
+    }
+    const license = asObject(info.license);
+    if (license.identifier) {
+        delete license.identifier;
+        issues.push({ path: 'info.license.identifier', message: 'SPDX license identifiers are not supported in 3.0; add a license url instead', severity: 'warning' });
+    }
+    const components = asObject(converted.components);
+    if (components.pathItems) {
+        delete components.pathItems;
+        issues.push({ path: 'components.pathItems', message: 'Reusable path items are not supported in 3.0 and were dropped', severity: 'warning' });
+    }
+    Object.entries(asObject(components.securitySchemes)).forEach(([name, scheme]) => {
+        if (asObject(scheme).type === 'mutualTLS') {
+            issues.push({ path: `components.securitySchemes.${name}`, message: 'mutualTLS security schemes are not supported in 3.0', severity: 'error' });
+        }
+    });
+
+    return { spec: converted, issues };
+};
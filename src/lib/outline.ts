@@ -0,0 +1,111 @@
+// lib/outline.ts
+import { HTTP_METHODS } from '@/lib/spec-parser';
+import { pointerToSegments, segmentsToPointer } from '@/lib/source-map';
+import { asObject, isObject, JsonObject, valueAt } from '@/lib/spec-document';
+
+// Table of contents of a spec for the editor: info, servers, tags, paths with their operations,
+// webhooks and components, each pointing at where it is defined.
+
+export interface OutlineNode {
+    label: string;
+    pointer: string;
+    detail?: string;
+    // Set on operation nodes
+    method?: string;
+    children: OutlineNode[];
+}
+
+export interface Breadcrumb {
+    label: string;
+    pointer: string;
+}
+
+const OPENAPI_3_COMPONENT_SECTIONS = ['schemas', 'responses', 'parameters', 'examples', 'requestBodies', 'headers', 'securitySchemes', 'links', 'callbacks', 'pathItems'];
+const SWAGGER_2_COMPONENT_SECTIONS = ['definitions', 'parameters', 'responses', 'securityDefinitions'];
+
+const node = (label: string, segments: string[], children: OutlineNode[] = [], detail?: string): OutlineNode => ({
+    label,
+    pointer: segmentsToPointer(segments),
+    detail,
+    children
+});
+
+const pathItemNodes = (pathItems: unknown, root: string): OutlineNode[] => {
+    if (!isObject(pathItems)) return [];
+
+    return Object.entries(pathItems).map(([path, pathItem]) => {
+        const operations = HTTP_METHODS.flatMap(method => {
+            const operation = valueAt(pathItem, [method]);
+            if (!isObject(operation)) return [];
+            return [{ ...node(String(operation.summary ?? operation.operationId ?? method.toUpperCase()), [root, path, method]), method }];
+        });
+        return node(path, [root, path], operations);
+    });
+};
+
+const componentNodes = (document: JsonObject): OutlineNode[] => {
+    const sections = document.swagger
+        ? SWAGGER_2_COMPONENT_SECTIONS.map(section => [section])
+        : OPENAPI_3_COMPONENT_SECTIONS.map(section => ['components', section]);
+
+    return sections.flatMap(sectionPath => {
+        const section = valueAt(document, sectionPath);
+        if (!isObject(section) || Object.keys(section).length === 0) return [];
+
+        const children = Object.keys(section).map(name => node(name, [...sectionPath, name]));
+        return [node(sectionPath[sectionPath.length - 1], sectionPath, children, String(children.length))];
+    });
+};
+
+export const buildOutline = (document: unknown): OutlineNode[] => {
+    if (!isObject(document)) return [];
+    const outline: OutlineNode[] = [];
+
+    if (isObject(document.info)) {
+        outline.push(node('info', ['info'], [], [document.info.title, document.info.version].filter(Boolean).join(' ')));
+    }
+
+    if (Array.isArray(document.servers) && document.servers.length > 0) {
+        const servers = document.servers.map((server, index) => node(String(asObject(server).url ?? `server ${index + 1}`), ['servers', String(index)]));
+        outline.push(node('servers', ['servers'], servers, String(servers.length)));
+    }
+
+    if (Array.isArray(document.tags) && document.tags.length > 0) {
+        const tags = document.tags.map((tag, index) => node(String(asObject(tag).name ?? `tag ${index + 1}`), ['tags', String(index)]));
+        outline.push(node('tags', ['tags'], tags, String(tags.length)));
+    }
+
+    const paths = pathItemNodes(document.paths, 'paths');
+    if (paths.length > 0) outline.push(node('paths', ['paths'], paths, String(paths.length)));
+
+    const webhooks = pathItemNodes(document.webhooks, 'webhooks');
+    if (webhooks.length > 0) outline.push(node('webhooks', ['webhooks'], webhooks, String(webhooks.length)));
+
+    const components = componentNodes(document);
+    if (components.length > 0) {
+        // Swagger 2.0 keeps its definitions at the root
+        if (document.swagger) {
+            outline.push(...components);
+        } else {
+            outline.push(node('components', ['components'], components));
+        }
+    }
+
+    return outline;
+};
+
+// The deepest outline node containing the pointer, used to follow the cursor
+export const findActiveNode = (outline: OutlineNode[], pointer: string): OutlineNode | null => {
+    for (const candidate of outline) {
+        if (pointer === candidate.pointer || pointer.startsWith(`${candidate.pointer}/`)) {
+            return findActiveNode(candidate.children, pointer) ?? candidate;
+        }
+    }
+    return null;
+};
+
+// One crumb per segment of the pointer, each pointing at its own node
+export const toBreadcrumbs = (pointer: string): Breadcrumb[] => {
+    const segments = pointerToSegments(pointer);
+    return segments.map((segment, index) => ({ label: segment, pointer: segmentsToPointer(segments.slice(0, index + 1)) }));
+};
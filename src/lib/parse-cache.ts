@@ -0,0 +1,144 @@
+// lib/parse-cache.ts
+import { parseSpecDocument, ParseProgress, ParseResult } from '@/lib/spec-parser';
+import type { ApiSpec } from '@/hooks/useOpenAPIParser';
+import type { CustomRuleset } from '@/lib/custom-rulesets';
+
+// Parsed specs are cached in IndexedDB, keyed by a hash of their content, the ruleset and the build that
+// produced them. Bump CACHE_VERSION whenever the shape of ParseResult changes; upgrading the database drops stale entries.
+const CACHE_VERSION = 6;
+// Parsing and checking code changes with every build; set in next.config.mjs
+const BUILD_ID = process.env.NEXT_PUBLIC_BUILD_ID ?? 'development';
+const DB_NAME = 'spec-view-cache';
+const STORE_NAME = 'parse-results';
+
+// Size bounds; the least recently used entries are evicted first
+const MAX_CACHE_BYTES = 25 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 50;
+
+interface CacheEntry {
+    hash: string;
+    result: ParseResult;
+    size: number;
+    lastAccessed: number;
+}
+
+const contentToString = (spec: ApiSpec) =>
+    typeof spec.content === 'string' ? spec.content : JSON.stringify(spec.content);
+
+// FNV-1a, used where crypto.subtle is unavailable (insecure origins)
+const fallbackHash = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `fnv-${(hash >>> 0).toString(16)}-${text.length}`;
+};
+
+export const hashSpecContent = async (spec: ApiSpec, customRulesets: CustomRuleset[] = []): Promise<string> => {
+    // Lint results are part of the cached result, so the ruleset (and an imported ruleset's source) is part of the key
+    const rulesetSource = customRulesets.find(ruleset => ruleset.id === spec.ruleset)?.source ?? '';
+    const text = `${CACHE_VERSION}\n${BUILD_ID}\n${spec.format}\n${spec.ruleset ?? ''}\n${rulesetSource}\n${contentToString(spec)}`;
+
+    if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(text);
+
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const openCacheDb = (): Promise<IDBDatabase | null> => new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+    }
+
+    const request = indexedDB.open(DB_NAME, CACHE_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (db.objectStoreNames.contains(STORE_NAME)) db.deleteObjectStore(STORE_NAME);
+        db.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+        console.warn('Parse cache unavailable:', request.error);
+        resolve(null);
+    };
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const getCachedParse = async (hash: string): Promise<ParseResult | null> => {
+    const db = await openCacheDb();
+    if (!db) return null;
+
+    try {
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        const entry = await requestToPromise<CacheEntry | undefined>(store.get(hash));
+        if (!entry) return null;
+
+        // Touch the entry so eviction keeps recently viewed specs
+        store.put({ ...entry, lastAccessed: Date.now() });
+        return entry.result;
+    } catch (cacheError) {
+        console.warn('Failed to read parse cache:', cacheError);
+        return null;
+    } finally {
+        db.close();
+    }
+};
+
+// Drops least recently used entries until the cache fits its bounds
+const evictEntries = async (store: IDBObjectStore) => {
+    const entries = await requestToPromise<CacheEntry[]>(store.getAll());
+    entries.sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+
+    for (const entry of entries) {
+        if (totalSize <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) break;
+        store.delete(entry.hash);
+        totalSize -= entry.size;
+        count--;
+    }
+};
+
+export const putCachedParse = async (hash: string, result: ParseResult) => {
+    const size = JSON.stringify(result).length;
+    // A single result larger than the whole cache is not worth storing
+    if (size > MAX_CACHE_BYTES) return;
+
+    const db = await openCacheDb();
+    if (!db) return;
+
+    try {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        await requestToPromise(store.put({ hash, result, size, lastAccessed: Date.now() } as CacheEntry));
+        await evictEntries(store);
+    } catch (cacheError) {
+        console.warn('Failed to write parse cache:', cacheError);
+    } finally {
+        db.close();
+    }
+};
+
+// Returns the cached result for unchanged content, otherwise parses and caches successful results
+export const parseSpecWithCache = async (
+    spec: ApiSpec,
+    onProgress?: (progress: ParseProgress) => void,
+    customRulesets: CustomRuleset[] = []
+): Promise<ParseResult> => {
+    const hash = await hashSpecContent(spec, customRulesets);
+
+    const cached = await getCachedParse(hash);
+    if (cached) return cached;
+
+    const result = await parseSpecDocument(spec, onProgress, customRulesets);
+    if (!result.error) await putCachedParse(hash, result);
+
+    return result;
+};
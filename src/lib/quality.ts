@@ -0,0 +1,128 @@
+// lib/quality.ts
+import type { Endpoint, MediaType } from '@/hooks/useOpenAPIParser';
+import { asArray, asObject, isObject } from '@/lib/spec-document';
+
+// Documentation completeness of a parsed spec. Each check counts how many items pass, and the
+// overall score is the average pass rate of the checks that apply to the spec.
+
+export interface QualityFailure {
+    endpointId: string;
+    method: string;
+    path: string;
+    // What is missing, e.g. the parameter or property name
+    detail: string;
+}
+
+export interface QualityCheck {
+    id: string;
+    label: string;
+    passed: number;
+    total: number;
+    failures: QualityFailure[];
+}
+
+export interface QualityReport {
+    // 0-100, or null when the spec has no endpoints to score
+    score: number | null;
+    checks: QualityCheck[];
+}
+
+const hasText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+const isErrorStatus = (statusCode: string) => /^[45]/.test(statusCode) || statusCode === 'default';
+
+const mediaTypeHasExample = (mediaType: MediaType) =>
+    mediaType.example !== undefined
+    || Object.keys(mediaType.examples ?? {}).length > 0
+    || mediaType.schema?.example !== undefined
+    || (Array.isArray(mediaType.schema?.examples) && mediaType.schema.examples.length > 0);
+
+// Every property of a (resolved) schema and its nested schemas, with a dotted name
+const collectProperties = (
+    schema: unknown,
+    prefix: string,
+    visit: (name: string, property: unknown) => void,
+    seen = new Set<unknown>()
+) => {
+    if (!isObject(schema) || seen.has(schema)) return;
+    seen.add(schema);
+
+    Object.entries(asObject(schema.properties)).forEach(([name, property]) => {
+        const qualified = prefix ? `${prefix}.${name}` : name;
+        visit(qualified, property);
+        collectProperties(property, qualified, visit, seen);
+    });
+    collectProperties(schema.items, prefix ? `${prefix}[]` : '[]', visit, seen);
+    ['allOf', 'anyOf', 'oneOf'].forEach(keyword => {
+        asArray(schema[keyword]).forEach(subSchema => collectProperties(subSchema, prefix, visit, seen));
+    });
+};
+
+const createCheck = (id: string, label: string): QualityCheck => ({ id, label, passed: 0, total: 0, failures: [] });
+
+const record = (check: QualityCheck, endpoint: Endpoint, passed: boolean, detail: string) => {
+    check.total++;
+    if (passed) {
+        check.passed++;
+    } else {
+        check.failures.push({ endpointId: endpoint.id, method: endpoint.method, path: endpoint.path, detail });
+    }
+};
+
+export const computeQualityReport = (endpoints: Endpoint[]): QualityReport => {
+    const summaries = createCheck('operation-summary', 'Operations with a summary');
+    const descriptions = createCheck('operation-description', 'Operations with a description');
+    const parameters = createCheck('parameter-description', 'Parameters with a description');
+    const properties = createCheck('property-description', 'Schema properties with a description');
+    const examples = createCheck('response-example', 'Responses with an example');
+    const errorResponses = createCheck('error-response', 'Operations documenting error responses');
+
+    endpoints.forEach(endpoint => {
+        record(summaries, endpoint, hasText(endpoint.summary), 'No summary');
+        record(descriptions, endpoint, hasText(endpoint.description), 'No description');
+
+        (endpoint.parameters ?? []).forEach(parameter => {
+            record(parameters, endpoint, hasText(parameter.description), `Parameter '${parameter.name}' (${parameter.in})`);
+        });
+
+        // The same schema is often shared by several media types; count each property once per endpoint
+        const seenProperties = new Set<string>();
+        const checkSchema = (schema: unknown, location: string) => collectProperties(schema, '', (name, property) => {
+            const key = `${location} ${name}`;
+            if (seenProperties.has(key)) return;
+            seenProperties.add(key);
+            record(properties, endpoint, hasText(asObject(property).description), `${location} property '${name}'`);
+        });
+        (endpoint.requestBody?.content ?? []).forEach(mediaType => checkSchema(mediaType.schema, 'Request body'));
+        endpoint.responses.forEach(response => {
+            response.mediaTypes.forEach(mediaType => checkSchema(mediaType.schema, `Response ${response.statusCode}`));
+
+            if (response.mediaTypes.length > 0) {
+                record(examples, endpoint, response.mediaTypes.some(mediaTypeHasExample), `Response ${response.statusCode}`);
+            }
+        });
+
+        record(
+            errorResponses,
+            endpoint,
+            endpoint.responses.some(response => isErrorStatus(response.statusCode)),
+            'No 4xx, 5xx or default response'
+        );
+    });
+
+    const checks = [summaries, descriptions, parameters, properties, examples, errorResponses];
+    const applicable = checks.filter(check => check.total > 0);
+    const score = applicable.length === 0
+        ? null
+        : Math.round(applicable.reduce((sum, check) => sum + check.passed / check.total, 0) / applicable.length * 100);
+
+    return { score, checks };
+};
+
+// Tailwind text colour for a score
+export const getQualityScoreClass = (score: number | null) => {
+    if (score === null) return 'text-slate-400';
+    if (score >= 80) return 'text-green-400';
+    if (score >= 50) return 'text-yellow-400';
+    return 'text-red-400';
+};
@@ -0,0 +1,103 @@
+// lib/ref-navigation.ts
+import yaml from 'js-yaml';
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import { createError } from '@/lib/errors';
+import { pointerToSegments, RefLocation, refToSegments, segmentsToPointer, SpecSourceMap } from '@/lib/source-map';
+import { asArray, asObject, isObject, valueAt } from '@/lib/spec-document';
+
+// Navigation between $refs and what they point at: the definition of a reference, the references to a
+// definition, and a short preview of a referenced object. Only local references ('#/...') are followed.
+
+// Long definitions are cut off in previews
+const MAX_PREVIEW_LINES = 30;
+const MAX_PREVIEW_PROPERTIES = 20;
+
+// Normalized pointer to the target of a local reference, or null for external references
+export const refTargetPointer = (ref: string): string | null =>
+    ref.startsWith('#') ? segmentsToPointer(refToSegments(ref)) : null;
+
+// The $ref whose string contains the offset
+export const findRefAt = (sourceMap: SpecSourceMap, offset: number): RefLocation | null =>
+    sourceMap.refs().find(location => offset >= location.offsets[0] && offset <= location.offsets[1]) ?? null;
+
+// The definition a navigation request at the offset is about: the target of the $ref under the cursor,
+// or else the node under the cursor itself
+export const definitionPointerAt = (sourceMap: SpecSourceMap, offset: number): string | null => {
+    const location = findRefAt(sourceMap, offset);
+    if (location) return refTargetPointer(location.ref);
+    return sourceMap.pointerAt(offset) || null;
+};
+
+// Whether the definition exists; text with syntax errors cannot be checked and is given the benefit of the doubt
+export const isDefined = (sourceMap: SpecSourceMap, pointer: string) =>
+    sourceMap.document === null || valueAt(sourceMap.document, pointerToSegments(pointer)) !== undefined;
+
+// Every $ref pointing at the definition or into it
+export const findReferences = (sourceMap: SpecSourceMap, pointer: string): RefLocation[] =>
+    sourceMap.refs().filter(location => {
+        const target = refTargetPointer(location.ref);
+        return target !== null && (target === pointer || target.startsWith(`${pointer}/`));
+    });
+
+// Local references to definitions that do not exist, reported on the reference string itself
+export const findUnresolvedRefs = (sourceMap: SpecSourceMap): ValidationError[] =>
+    sourceMap.refs()
+        .filter(location => {
+            const target = refTargetPointer(location.ref);
+            return target !== null && !isDefined(sourceMap, target);
+        })
+        .map(location => createError('UNRESOLVED_REF', `Could not resolve reference ${location.ref}`, {
+            path: pointerToSegments(location.pointer).join('.') || undefined,
+            pointer: location.pointer,
+            range: location.range
+        }));
+
+const describeType = (schema: unknown): string => {
+    if (!isObject(schema)) return 'any';
+    if (typeof schema.$ref === 'string') return schema.$ref.slice(schema.$ref.lastIndexOf('/') + 1);
+    if (schema.type === 'array') return `array of ${describeType(schema.items)}`;
+    const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+    if (type) return schema.format ? `${type} (${schema.format})` : String(type);
+    if (schema.allOf || schema.oneOf || schema.anyOf) return schema.allOf ? 'allOf' : schema.oneOf ? 'oneOf' : 'anyOf';
+    return schema.properties ? 'object' : 'any';
+};
+
+// Markdown list of a schema's properties
+const describeProperties = (schema: unknown): string[] => {
+    const properties = Object.entries(asObject(asObject(schema).properties));
+    const required = asArray(asObject(schema).required);
+
+    const lines = properties.slice(0, MAX_PREVIEW_PROPERTIES).map(([name, property]) => {
+        const flags = required.includes(name) ? ', required' : '';
+        const { description: text } = asObject(property);
+        const description = typeof text === 'string' ? ` — ${text.split('\n')[0]}` : '';
+        return `- \`${name}\`: *${describeType(property)}*${flags}${description}`;
+    });
+    if (properties.length > MAX_PREVIEW_PROPERTIES) {
+        lines.push(`- … ${properties.length - MAX_PREVIEW_PROPERTIES} more`);
+    }
+    return lines;
+};
+
+// Markdown preview of what a reference points at, or null for references that are not followed
+export const previewRef = (document: unknown, ref: string): string | null => {
+    const pointer = refTargetPointer(ref);
+    if (pointer === null) return null;
+
+    const target = valueAt(document, pointerToSegments(pointer));
+    if (target === undefined) return `**Unresolved reference** \`${ref}\``;
+
+    const name = pointerToSegments(pointer).pop() ?? ref;
+    const sections = [`**${name}** · \`${describeType(target)}\``];
+    const { description } = asObject(target);
+    if (typeof description === 'string') sections.push(description);
+
+    const properties = describeProperties(target);
+    if (properties.length > 0) sections.push(properties.join('\n'));
+
+    const source = yaml.dump(target, { lineWidth: -1, noRefs: true }).trimEnd().split('\n');
+    const shown = source.length > MAX_PREVIEW_LINES ? [...source.slice(0, MAX_PREVIEW_LINES), '# …'] : source;
+    sections.push(`\`\`\`yaml\n${shown.join('\n')}\n\`\`\``);
+
+    return sections.join('\n\n');
+};
@@ -0,0 +1,230 @@
+// lib/security-rules.ts
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import type { JsonPathSegment } from '@/lib/json-path';
+import { lintDocument, LintRule, LintViolation, OPERATIONS_PATH, Ruleset } from '@/lib/linter';
+import { asObject, isObject, JsonObject, valueAt } from '@/lib/spec-document';
+
+// OWASP API Security Top 10 (2023) categories the audit can report on
+export const OWASP_CATEGORIES = {
+    API2: 'API2:2023 Broken Authentication',
+    API3: 'API3:2023 Broken Object Property Level Authorization',
+    API4: 'API4:2023 Unrestricted Resource Consumption',
+    API5: 'API5:2023 Broken Function Level Authorization',
+    API8: 'API8:2023 Security Misconfiguration'
+};
+
+// Hosts where plain HTTP is expected during development
+const LOCAL_HOSTS = /^http:\/\/(localhost|127\.0\.0\.1|\[::1\]|0\.0\.0\.0)([:/]|$)/i;
+
+// Formats and keywords that already bound a string's length
+const BOUNDED_STRING_KEYWORDS = ['maxLength', 'enum', 'const'];
+const BOUNDED_STRING_FORMATS = ['date', 'date-time', 'time', 'uuid', 'email', 'ipv4', 'ipv6', 'int32', 'int64', 'byte'];
+
+const securitySchemesOf = (document: unknown): JsonObject =>
+    asObject(valueAt(document, ['components', 'securitySchemes']) ?? asObject(document).securityDefinitions);
+
+// Operation-level security wins over the root-level requirement, even when it is an empty list
+const effectiveSecurity = (operation: unknown, document: unknown): unknown =>
+    asObject(operation).security ?? asObject(document).security;
+
+const isSecured = (operation: unknown, document: unknown) => {
+    const security = effectiveSecurity(operation, document);
+    return Array.isArray(security) && security.some(requirement => Object.keys(asObject(requirement)).length > 0);
+};
+
+const hasResponse = (operation: unknown, statusCode: string) => {
+    const responses = asObject(asObject(operation).responses);
+    return statusCode in responses || `${statusCode[0]}XX` in responses || `${statusCode[0]}xx` in responses;
+};
+
+const schemaTypes = (schema: JsonObject): string[] => {
+    if (Array.isArray(schema.type)) return schema.type;
+    return typeof schema.type === 'string' ? [schema.type] : [];
+};
+
+// Walks every schema-like object (schemas, Swagger 2 parameters and headers) with its location.
+// Examples and extensions are skipped since their contents are data, not schemas.
+const walkSchemas = (
+    value: unknown,
+    visit: (schema: JsonObject, path: JsonPathSegment[]) => void,
+    path: JsonPathSegment[] = [],
+    seen = new Set<unknown>()
+) => {
+    if (!value || typeof value !== 'object' || seen.has(value)) return;
+    seen.add(value);
+
+    if (isObject(value) && (typeof value.type === 'string' || Array.isArray(value.type) || value.properties)) {
+        visit(value, path);
+    }
+
+    Object.entries(value).forEach(([key, child]) => {
+        if (key === 'example' || key === 'examples' || key.startsWith('x-')) return;
+        walkSchemas(child, visit, [...path, Array.isArray(value) ? Number(key) : key], seen);
+    });
+};
+
+const schemaRule = (check: (schema: JsonObject) => string | null): LintRule['check'] => document => {
+    const violations: LintViolation[] = [];
+    walkSchemas(document, (schema, path) => {
+        const message = check(schema);
+        if (message) violations.push({ message, path });
+    });
+    return violations;
+};
+
+export const SECURITY_RULES: LintRule[] = [
+    {
+        id: 'security-operation-defined',
+        description: 'Operations require authentication',
+        category: OWASP_CATEGORIES.API2,
+        given: OPERATIONS_PATH,
+        severity: 'warn',
+        check: (operation, { document }) => {
+            const security = effectiveSecurity(operation, document);
+            if (security === undefined) return 'Operation has no security requirement';
+            if (!isSecured(operation, document)) return 'Operation explicitly allows unauthenticated access';
+            return null;
+        }
+    },
+    {
+        id: 'security-scheme-defined',
+        description: 'Security requirements reference declared security schemes',
+        category: OWASP_CATEGORIES.API2,
+        given: ['$.security[*]', `${OPERATIONS_PATH}.security[*]`],
+        severity: 'error',
+        check: (requirement, { document }) => {
+            const schemes = securitySchemesOf(document);
+            return Object.keys(asObject(requirement))
+                .filter(name => !(name in schemes))
+                .map(name => ({ message: `Security scheme '${name}' is not declared`, path: [name] }));
+        }
+    },
+    {
+        id: 'security-api-key-in-query',
+        description: 'API keys are not sent in query strings, where they end up in logs',
+        category: OWASP_CATEGORIES.API2,
+        given: ['$.components.securitySchemes[*]', '$.securityDefinitions[*]'],
+        severity: 'warn',
+        check: scheme => isObject(scheme) && scheme.type === 'apiKey' && scheme.in === 'query'
+            ? 'API key is passed in the query string; use a header instead'
+            : null
+    },
+    {
+        id: 'security-scheme-http-basic',
+        description: 'HTTP Basic authentication is not used',
+        category: OWASP_CATEGORIES.API2,
+        given: ['$.components.securitySchemes[*]', '$.securityDefinitions[*]'],
+        severity: 'info',
+        check: scheme => isObject(scheme) && ((scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'basic') || scheme.type === 'basic')
+            ? 'HTTP Basic authentication sends reusable credentials with every request'
+            : null
+    },
+    {
+        id: 'security-servers-https',
+        description: 'Servers use HTTPS',
+        category: OWASP_CATEGORIES.API8,
+        given: ['$.servers[*]', '$.paths[*].servers[*]', `${OPERATIONS_PATH}.servers[*]`],
+        severity: 'warn',
+        check: server => isObject(server) && typeof server.url === 'string' && server.url.toLowerCase().startsWith('http://') && !LOCAL_HOSTS.test(server.url)
+            ? { message: `Server '${server.url}' uses plain HTTP`, path: ['url'] }
+            : null
+    },
+    {
+        id: 'security-schemes-https',
+        description: 'Swagger 2.0 documents only allow HTTPS',
+        category: OWASP_CATEGORIES.API8,
+        given: '$.schemes',
+        severity: 'warn',
+        check: schemes => Array.isArray(schemes) && schemes.includes('http') ? 'API allows the plain HTTP scheme' : null
+    },
+    {
+        id: 'security-401-response',
+        description: 'Secured operations document a 401 response',
+        category: OWASP_CATEGORIES.API2,
+        given: OPERATIONS_PATH,
+        severity: 'warn',
+        check: (operation, { document }) => isSecured(operation, document) && !hasResponse(operation, '401')
+            ? { message: 'Secured operation does not document a 401 Unauthorized response', path: ['responses'] }
+            : null
+    },
+    {
+        id: 'security-403-response',
+        description: 'Secured operations document a 403 response',
+        category: OWASP_CATEGORIES.API5,
+        given: OPERATIONS_PATH,
+        severity: 'info',
+        check: (operation, { document }) => isSecured(operation, document) && !hasResponse(operation, '403')
+            ? { message: 'Secured operation does not document a 403 Forbidden response', path: ['responses'] }
+            : null
+    },
+    {
+        id: 'security-429-response',
+        description: 'Operations document rate limiting with a 429 response',
+        category: OWASP_CATEGORIES.API4,
+        given: OPERATIONS_PATH,
+        severity: 'info',
+        check: operation => !hasResponse(operation, '429')
+            ? { message: 'Operation does not document a 429 Too Many Requests response', path: ['responses'] }
+            : null
+    },
+    {
+        id: 'security-array-max-items',
+        description: 'Arrays declare maxItems',
+        category: OWASP_CATEGORIES.API4,
+        given: '$',
+        severity: 'warn',
+        check: schemaRule(schema => schemaTypes(schema).includes('array') && schema.maxItems === undefined
+            ? 'Array has no maxItems limit'
+            : null)
+    },
+    {
+        id: 'security-string-max-length',
+        description: 'Strings declare maxLength',
+        category: OWASP_CATEGORIES.API4,
+        given: '$',
+        severity: 'info',
+        check: schemaRule(schema => schemaTypes(schema).includes('string')
+            && !BOUNDED_STRING_KEYWORDS.some(keyword => schema[keyword] !== undefined)
+            && !BOUNDED_STRING_FORMATS.includes(String(schema.format))
+            ? 'String has no maxLength limit'
+            : null)
+    },
+    {
+        id: 'security-additional-properties',
+        description: 'Objects do not accept undeclared properties',
+        category: OWASP_CATEGORIES.API3,
+        given: '$',
+        severity: 'warn',
+        check: schemaRule(schema => {
+            const describesObject = schemaTypes(schema).includes('object') || (!schema.type && schema.properties);
+            if (!describesObject || schema.additionalProperties === false || schema.unevaluatedProperties === false) return null;
+            // A schema for additional properties is a deliberate map, not an oversight
+            if (schema.additionalProperties && typeof schema.additionalProperties === 'object') return null;
+            return 'Object allows additional properties; set additionalProperties to false to prevent mass assignment';
+        })
+    }
+];
+
+export const SECURITY_RULESET: Ruleset = {
+    id: 'owasp',
+    name: 'OWASP API Security',
+    description: 'Security audit based on the OWASP API Security Top 10',
+    rules: Object.fromEntries(SECURITY_RULES.map(rule => [rule.id, true]))
+};
+
+// Runs every security rule, whatever ruleset the spec uses
+export const auditSecurity = (document: unknown): ValidationError[] =>
+    lintDocument(document, SECURITY_RULESET.id, [SECURITY_RULESET], SECURITY_RULES);
+
+// Findings grouped by OWASP category, in category order
+export const groupByCategory = (findings: ValidationError[]): [string, ValidationError[]][] => {
+    const groups = new Map<string, ValidationError[]>();
+    Object.values(OWASP_CATEGORIES).forEach(category => groups.set(category, []));
+
+    findings.forEach(finding => {
+        const category = finding.category ?? 'Other';
+        groups.set(category, [...(groups.get(category) ?? []), finding]);
+    });
+
+    return Array.from(groups.entries()).filter(([, items]) => items.length > 0);
+};
@@ -0,0 +1,365 @@
+// lib/source-map.ts
+import { LineCounter, parseDocument, isMap, isSeq, isPair, isScalar, Document, Node as YamlNode, Pair, YAMLMap } from 'yaml';
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import { createError } from '@/lib/errors';
+import { valueAt } from '@/lib/spec-document';
+
+// Types
+// 1-based, matching Monaco's IRange
+export interface SourceRange {
+    startLineNumber: number;
+    startColumn: number;
+    endLineNumber: number;
+    endColumn: number;
+}
+
+// Exact extent of a key or value in the source
+export interface SourceSpan {
+    range: SourceRange;
+    offsets: [number, number];
+}
+
+// Replacement of an extent of the source
+export interface SourceEdit extends SourceSpan {
+    text: string;
+}
+
+// A `$ref` in the source
+export interface RefLocation {
+    ref: string;
+    // Pointer to the object holding the $ref
+    pointer: string;
+    // Range of the reference string, as a source range and as text offsets
+    range: SourceRange;
+    offsets: [number, number];
+}
+
+export interface SpecSourceMap {
+    // Parsed document, or null when the text is not valid YAML/JSON
+    document: unknown;
+    // Syntax errors with their exact source range
+    syntaxErrors: ValidationError[];
+    // Range of the node a JSON pointer points at, falling back to its closest existing ancestor
+    locate: (pointer: string) => SourceRange | null;
+    // Pointer to the deepest node at a text offset; on a key, the pointer to that key's value
+    pointerAt: (offset: number) => string;
+    // Every $ref in the document, in source order
+    refs: () => RefLocation[];
+    // Exact extent of the key or the value at a pointer, or null when it does not exist
+    span: (pointer: string, part: 'key' | 'value') => SourceSpan | null;
+    // Edits deleting the map entries at the pointers along with their separators. Neighbouring entries are
+    // deleted by one edit, so edits never overlap.
+    removalEdits: (pointers: string[]) => SourceEdit[];
+}
+
+// JSON pointers (RFC 6901)
+export const pointerToSegments = (pointer: string): string[] => {
+    if (!pointer || pointer === '#' || pointer === '/' || pointer === '#/') return [];
+
+    return pointer.replace(/^#/, '').split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+// URI fragment for a pointer, as used in references and schema ids, e.g. '#/paths/~1users~1%7Bid%7D'
+export const segmentsToFragment = (segments: (string | number)[]) =>
+    `#${segments.map(segment => `/${encodeURIComponent(String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))}`).join('')}`;
+
+// Percent-decodes a URI fragment, keeping it as written when it is not valid percent-encoding
+const decodeFragment = (fragment: string) => {
+    try {
+        return decodeURIComponent(fragment);
+    } catch (error) {
+        if (error instanceof URIError) return fragment;
+        throw error;
+    }
+};
+
+// Segments of the pointer in a reference's URI fragment, e.g. '#/paths/~1users~1%7Bid%7D'.
+// Only references are URI-encoded; pointers produced by the app are plain JSON pointers.
+export const refToSegments = (ref: string): string[] => {
+    const fragment = ref.slice(ref.indexOf('#') + 1);
+    if (!fragment || fragment === '/') return [];
+
+    return fragment.split('/').slice(1).map(segment =>
+        decodeFragment(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+    );
+};
+
+export const segmentsToPointer = (segments: (string | number)[]) =>
+    segments.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+
+// Turns a dotted ValidationError path such as 'paths./pets.json.get' into a JSON pointer.
+// Keys may contain dots themselves, so segments are matched greedily against the document.
+export const pathToPointer = (document: unknown, path: string): string => {
+    const parts = path.split('.');
+    const segments: string[] = [];
+    let current: unknown = document;
+    let index = 0;
+
+    while (index < parts.length) {
+        let matched = false;
+
+        if (current && typeof current === 'object') {
+            for (let end = parts.length; end > index; end--) {
+                const candidate = parts.slice(index, end).join('.');
+                if (Object.prototype.hasOwnProperty.call(current, candidate)) {
+                    segments.push(candidate);
+                    current = valueAt(current, [candidate]);
+                    index = end;
+                    matched = true;
+                    break;
+                }
+            }
+        }
+
+        // Missing keys (e.g. a required field that is absent) are kept as single segments
+        if (!matched) {
+            segments.push(parts[index]);
+            current = undefined;
+            index++;
+        }
+    }
+
+    return segmentsToPointer(segments);
+};
+
+const offsetsToRange = (lineCounter: LineCounter, start: number, end: number): SourceRange => {
+    const startPos = lineCounter.linePos(start);
+    const endPos = lineCounter.linePos(Math.max(start, end));
+    return {
+        startLineNumber: startPos.line,
+        startColumn: startPos.col,
+        endLineNumber: endPos.line,
+        endColumn: endPos.col
+    };
+};
+
+const keyOf = (pair: Pair<unknown, unknown>) => String(isScalar(pair.key) ? pair.key.value : pair.key);
+
+const contains = (node: YamlNode | null | undefined, offset: number) =>
+    !!node?.range && offset >= node.range[0] && offset <= node.range[1];
+
+const findPair = (node: YamlNode, segment: string): Pair<unknown, unknown> | undefined => {
+    if (!isMap(node)) return undefined;
+    return node.items.find(pair => keyOf(pair) === segment);
+};
+
+// Walks the YAML AST along the pointer and returns the offsets of the deepest node found.
+// Pairs are reported by their key (and scalar value), which is where a reader looks for them.
+const locateOffsets = (yamlDocument: Document, segments: string[]): [number, number] | null => {
+    let node = yamlDocument.contents as YamlNode | null;
+    if (!node?.range) return null;
+
+    let found: [number, number] = [node.range[0], node.range[0]];
+
+    for (const segment of segments) {
+        if (isMap(node)) {
+            const pair = findPair(node, segment);
+            if (!pair || !isPair(pair)) break;
+
+            const key = pair.key as YamlNode;
+            const value = pair.value as YamlNode | null;
+            if (key?.range) {
+                found = isScalar(value) && value.range ? [key.range[0], value.range[1]] : [key.range[0], key.range[1]];
+            }
+            node = value;
+        } else if (isSeq(node)) {
+            const item = node.items[Number(segment)] as YamlNode | undefined;
+            if (!item?.range) break;
+
+            found = isScalar(item) ? [item.range[0], item.range[1]] : [item.range[0], item.range[0] + 1];
+            node = item;
+        } else {
+            break;
+        }
+        if (!node) break;
+    }
+
+    return found;
+};
+
+const spanOffsets = (yamlDocument: Document, segments: string[], part: 'key' | 'value'): [number, number] | null => {
+    let node = yamlDocument.contents as YamlNode | null;
+    if (segments.length === 0) return null;
+
+    for (let index = 0; index < segments.length; index++) {
+        const last = index === segments.length - 1;
+        let target: YamlNode | null;
+
+        if (isMap(node)) {
+            const pair = findPair(node, segments[index]);
+            if (!pair) return null;
+            target = (last && part === 'key' ? pair.key : pair.value) as YamlNode | null;
+        } else if (isSeq(node)) {
+            // List items have no key
+            if (last && part === 'key') return null;
+            target = node.items[Number(segments[index])] as YamlNode | null;
+        } else {
+            return null;
+        }
+
+        if (last) return target?.range ? [target.range[0], target.range[1]] : null;
+        node = target;
+    }
+    return null;
+};
+
+const nodeAt = (yamlDocument: Document, segments: string[]): YamlNode | null =>
+    segments.reduce<YamlNode | null>((node, segment) => {
+        if (isMap(node)) return (findPair(node, segment)?.value ?? null) as YamlNode | null;
+        if (isSeq(node)) return (node.items[Number(segment)] ?? null) as YamlNode | null;
+        return null;
+    }, yamlDocument.contents as YamlNode | null);
+
+// Deletion of one run of neighbouring entries of a map. Block entries take their whole lines, and a block map
+// losing every entry becomes '{}'; flow entries (including all of JSON) take the comma before or after them.
+const runRemoval = (text: string, map: YAMLMap, first: number, last: number): { offsets: [number, number]; text: string } | null => {
+    const startOf = (index: number) => (map.items[index].key as YamlNode | null)?.range?.[0];
+    const endOf = (index: number) => {
+        const pair = map.items[index];
+        return ((pair.value as YamlNode | null)?.range ?? (pair.key as YamlNode | null)?.range)?.[1];
+    };
+    const start = startOf(first);
+    const end = endOf(last);
+    if (start === undefined || end === undefined) return null;
+
+    if (map.flow) {
+        const next = last + 1 < map.items.length ? startOf(last + 1) : undefined;
+        if (next !== undefined) return { offsets: [start, next], text: '' };
+        const previous = first > 0 ? endOf(first - 1) : undefined;
+        return { offsets: [previous ?? start, end], text: '' };
+    }
+
+    const lineEnd = text[end - 1] === '\n' ? end : text.indexOf('\n', end) + 1 || text.length;
+    if (first === 0 && last === map.items.length - 1) return { offsets: [start, lineEnd], text: '{}\n' };
+
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    return { offsets: [text.slice(lineStart, start).trim() ? start : lineStart, lineEnd], text: '' };
+};
+
+const removals = (text: string, yamlDocument: Document, pointers: string[]) => {
+    // Indexes of the entries to delete, by the map holding them
+    const removed = new Map<YAMLMap, Set<number>>();
+    pointers.map(pointerToSegments).forEach(segments => {
+        const map = segments.length > 0 ? nodeAt(yamlDocument, segments.slice(0, -1)) : null;
+        if (!isMap(map)) return;
+        const index = map.items.findIndex(pair => keyOf(pair) === segments[segments.length - 1]);
+        if (index !== -1) removed.set(map, (removed.get(map) ?? new Set<number>()).add(index));
+    });
+
+    return Array.from(removed.entries()).flatMap(([map, indexes]) => {
+        const runs: { offsets: [number, number]; text: string }[] = [];
+        Array.from(indexes).sort((a, b) => a - b).forEach(index => {
+            if (indexes.has(index - 1)) return;
+            let last = index;
+            while (indexes.has(last + 1)) last++;
+            const run = runRemoval(text, map, index, last);
+            if (run) runs.push(run);
+        });
+        return runs;
+    });
+};
+
+const segmentsAt = (yamlDocument: Document, offset: number): string[] => {
+    const segments: string[] = [];
+    let node = yamlDocument.contents as YamlNode | null;
+
+    while (node) {
+        if (isMap(node)) {
+            const pair = node.items.find(item => contains(item.key as YamlNode, offset) || contains(item.value as YamlNode, offset));
+            if (!pair) break;
+            segments.push(keyOf(pair));
+            if (contains(pair.key as YamlNode, offset)) break;
+            node = pair.value as YamlNode | null;
+        } else if (isSeq(node)) {
+            const index = node.items.findIndex(item => contains(item as YamlNode, offset));
+            if (index === -1) break;
+            segments.push(String(index));
+            node = node.items[index] as YamlNode;
+        } else {
+            break;
+        }
+    }
+
+    return segments;
+};
+
+const collectRefs = (node: YamlNode | null, segments: string[], visit: (ref: string, segments: string[], range: [number, number]) => void) => {
+    if (isMap(node)) {
+        node.items.forEach(pair => {
+            const key = keyOf(pair);
+            const value = pair.value as YamlNode | null;
+            if (key === '$ref' && isScalar(value) && typeof value.value === 'string' && value.range) {
+                visit(value.value, segments, [value.range[0], value.range[1]]);
+            } else {
+                collectRefs(value, [...segments, key], visit);
+            }
+        });
+    } else if (isSeq(node)) {
+        node.items.forEach((item, index) => collectRefs(item as YamlNode, [...segments, String(index)], visit));
+    }
+};
+
+// Parses YAML or JSON text while keeping enough position information to map pointers back to source
+export const buildSourceMap = (text: string): SpecSourceMap => {
+    const lineCounter = new LineCounter();
+    const yamlDocument = parseDocument(text, { lineCounter, prettyErrors: false });
+
+    const syntaxErrors: ValidationError[] = [...yamlDocument.errors, ...yamlDocument.warnings].map(yamlError =>
+        createError('SYNTAX_ERROR', `Syntax error: ${yamlError.message.split('\n')[0]}`, {
+            severity: yamlDocument.errors.includes(yamlError) ? 'error' : 'warning',
+            range: offsetsToRange(lineCounter, yamlError.pos[0], yamlError.pos[1])
+        })
+    );
+
+    let document: unknown = null;
+    if (yamlDocument.errors.length === 0) {
+        try {
+            document = yamlDocument.toJS({ maxAliasCount: -1 });
+        } catch (conversionError) {
+            const message = conversionError instanceof Error ? conversionError.message : String(conversionError);
+            syntaxErrors.push(createError('SYNTAX_ERROR', `Syntax error: ${message}`, { cause: conversionError }));
+        }
+    }
+
+    const locate = (pointer: string) => {
+        const offsets = locateOffsets(yamlDocument, pointerToSegments(pointer));
+        return offsets ? offsetsToRange(lineCounter, offsets[0], offsets[1]) : null;
+    };
+
+    const pointerAt = (offset: number) => segmentsToPointer(segmentsAt(yamlDocument, offset));
+
+    const refs = () => {
+        const found: RefLocation[] = [];
+        collectRefs(yamlDocument.contents as YamlNode | null, [], (ref, segments, offsets) => {
+            found.push({ ref, pointer: segmentsToPointer(segments), range: offsetsToRange(lineCounter, offsets[0], offsets[1]), offsets });
+        });
+        return found;
+    };
+
+    const span = (pointer: string, part: 'key' | 'value'): SourceSpan | null => {
+        const offsets = spanOffsets(yamlDocument, pointerToSegments(pointer), part);
+        return offsets ? { range: offsetsToRange(lineCounter, offsets[0], offsets[1]), offsets } : null;
+    };
+
+    const removalEdits = (pointers: string[]): SourceEdit[] =>
+        removals(text, yamlDocument, pointers).map(({ offsets, text: replacement }) => ({
+            range: offsetsToRange(lineCounter, offsets[0], offsets[1]),
+            offsets,
+            text: replacement
+        }));
+
+    return { document, syntaxErrors, locate, pointerAt, refs, span, removalEdits };
+};
+
+// Fills in the pointer and source range of every error that does not have one yet
+export const attachSourceRanges = (errors: ValidationError[], sourceMap: SpecSourceMap): ValidationError[] =>
+    errors.map(error => {
+        if (error.range) return error;
+
+        const pointer = error.pointer ?? (error.path ? pathToPointer(sourceMap.document, error.path) : '');
+        return {
+            ...error,
+            pointer,
+            range: sourceMap.locate(pointer) ?? { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 1 }
+        };
+    });
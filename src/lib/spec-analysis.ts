@@ -0,0 +1,51 @@
+// lib/spec-analysis.ts
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import type { CustomRuleset } from '@/lib/custom-rulesets';
+import { createError } from '@/lib/errors';
+import { validateExamples } from '@/lib/example-validator';
+import { lintSpec } from '@/lib/lint-rules';
+import { buildOutline, OutlineNode } from '@/lib/outline';
+import { findUnresolvedRefs } from '@/lib/ref-navigation';
+import { attachSourceRanges, buildSourceMap, SpecSourceMap } from '@/lib/source-map';
+import { validateSpecFormat } from '@/lib/spec-parser';
+
+// Everything the editor shows about the text being edited: syntax errors, structural problems, examples,
+// lint findings and unresolved references, each with its source range, plus the outline. The text is
+// parsed once per run and the source map shared by every check. Runs in the spec analysis worker.
+
+export interface SpecAnalysis {
+    diagnostics: ValidationError[];
+    // Null while the text cannot be parsed, so the editor can keep showing the last good outline
+    outline: OutlineNode[] | null;
+}
+
+export const analyzeSpecText = (
+    text: string,
+    ruleset?: string,
+    customRulesets: CustomRuleset[] = []
+): SpecAnalysis & { sourceMap: SpecSourceMap | null } => {
+    try {
+        const sourceMap = buildSourceMap(text);
+        if (!sourceMap.document || typeof sourceMap.document !== 'object') {
+            return { diagnostics: sourceMap.syntaxErrors, outline: sourceMap.document ? [] : null, sourceMap };
+        }
+
+        const diagnostics = [
+            ...sourceMap.syntaxErrors,
+            ...findUnresolvedRefs(sourceMap),
+            ...attachSourceRanges([
+                ...validateSpecFormat(sourceMap.document),
+                ...validateExamples(sourceMap.document),
+                ...lintSpec(sourceMap.document, ruleset, customRulesets)
+            ], sourceMap)
+        ];
+        return { diagnostics, outline: buildOutline(sourceMap.document), sourceMap };
+    } catch (analysisError) {
+        // A failing check must not leave the editor showing stale results without a word
+        return {
+            diagnostics: [createError('UNEXPECTED', 'The specification could not be checked', { cause: analysisError })],
+            outline: null,
+            sourceMap: null
+        };
+    }
+};
@@ -0,0 +1,19 @@
+// lib/spec-document.ts
+
+// Parsed specifications are untrusted JSON: any position may hold any value, so walkers narrow
+// each value before reading from it instead of trusting the OpenAPI shape.
+export type JsonObject = { [key: string]: unknown };
+
+export const isObject = (value: unknown): value is JsonObject =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The value itself when it has the expected shape, otherwise an empty stand-in
+export const asObject = (value: unknown): JsonObject => (isObject(value) ? value : {});
+
+export const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+export const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+// The value under a path of keys and list indexes, or undefined where the document holds nothing
+export const valueAt = (document: unknown, segments: (string | number)[]): unknown =>
+    segments.reduce<unknown>((node, segment) => (node && typeof node === 'object' ? (node as JsonObject)[segment] : undefined), document);
@@ -0,0 +1,714 @@
+// lib/spec-parser.ts
+import kebabCase from 'lodash/kebabCase';
+import get from 'lodash/get';
+import SwaggerClient from 'swagger-client';
+import OpenAPIParser from '@readme/openapi-parser';
+import { validateAgainstMetaSchema } from '@/lib/meta-schema';
+import { createError, toErrorCause } from '@/lib/errors';
+import { attachSourceRanges, buildSourceMap, refToSegments, segmentsToPointer } from '@/lib/source-map';
+import { asObject, asString, isObject } from '@/lib/spec-document';
+import type { CustomRuleset } from '@/lib/custom-rulesets';
+import type {
+    ApiSpec,
+    Endpoint,
+    EndpointKind,
+    MediaType,
+    Parameter,
+    RequestBody,
+    ResponseHeader,
+    ResponseLink,
+    Server,
+    ValidationError
+} from '@/hooks/useOpenAPIParser';
+
+// Types
+export interface ParseProgress {
+    stage: 'reading' | 'validating' | 'resolving' | 'extracting';
+    percent: number;
+}
+
+export interface ParseResult {
+    endpoints: Endpoint[];
+    error: string | null;
+    validationErrors: ValidationError[];
+    specVersion: string;
+}
+
+// Utilities
+// The object under `key`, or undefined when there is none
+const objectAt = (value: unknown, key: string) => {
+    const field = asObject(value)[key];
+    return isObject(field) ? field : undefined;
+};
+
+export const contentResolver = (contentObj: unknown) => {
+    if (!contentObj || typeof contentObj !== 'object') {
+        return { type: '', schema: null };
+    }
+
+    const type = Object.keys(contentObj)[0] ?? '';
+    const schema = get(contentObj, `${type}.schema`, null);
+    return { type, schema };
+};
+
+export const mediaTypesResolver = (contentObj: unknown): MediaType[] => {
+    if (!contentObj || typeof contentObj !== 'object') return [];
+
+    return Object.entries(contentObj).map(([mediaType, mediaTypeObj]) => ({
+        mediaType,
+        schema: objectAt(mediaTypeObj, 'schema') ?? null,
+        example: asObject(mediaTypeObj).example,
+        examples: objectAt(mediaTypeObj, 'examples'),
+        encoding: objectAt(mediaTypeObj, 'encoding')
+    }));
+};
+
+const responseHeadersMapper = (headersObj: unknown): ResponseHeader[] =>
+    Object.entries(asObject(headersObj)).map(([name, headerObj]) => ({
+        name,
+        description: get(headerObj, 'description', ''),
+        required: get(headerObj, 'required', false),
+        deprecated: get(headerObj, 'deprecated', false),
+        schema: objectAt(headerObj, 'schema'),
+        example: asObject(headerObj).example
+    }));
+
+const responseLinksMapper = (linksObj: unknown): ResponseLink[] =>
+    Object.entries(asObject(linksObj)).map(([name, linkObj]) => ({
+        name,
+        description: get(linkObj, 'description', undefined),
+        operationId: get(linkObj, 'operationId', undefined),
+        operationRef: get(linkObj, 'operationRef', undefined),
+        parameters: objectAt(linkObj, 'parameters'),
+        requestBody: asObject(linkObj).requestBody
+    }));
+
+const serversMapper = (serversArr: unknown): Server[] | undefined =>
+    Array.isArray(serversArr)
+        ? serversArr.filter(isObject).map(server => ({
+            url: asString(server.url) ?? '',
+            description: asString(server.description),
+            variables: objectAt(server, 'variables')
+        }))
+        : undefined;
+
+// Reads the path and method out of an operationRef such as '#/paths/~1users~1{id}/get'
+const parseOperationRef = (operationRef: string) => {
+    if (!operationRef.includes('#')) return null;
+
+    const segments = refToSegments(operationRef);
+    if (segments.length !== 3 || segments[0] !== 'paths') return null;
+
+    return { path: segments[1], method: segments[2].toUpperCase() };
+};
+
+// Points every response link at the endpoint it references
+export const resolveLinkTargets = (endpoints: Endpoint[]) => {
+    const byOperationId = new Map<string, Endpoint>();
+    endpoints.forEach(endpoint => {
+        // With duplicate operationIds, links go to the first operation declaring it
+        if (endpoint.operationId && !byOperationId.has(endpoint.operationId)) byOperationId.set(endpoint.operationId, endpoint);
+    });
+
+    endpoints.forEach(endpoint => {
+        endpoint.responses.forEach(response => {
+            response.links?.forEach(link => {
+                if (link.operationId) {
+                    link.targetId = byOperationId.get(link.operationId)?.id;
+                } else if (link.operationRef) {
+                    const ref = parseOperationRef(link.operationRef);
+                    link.targetId = ref
+                        ? endpoints.find(e => e.kind === 'operation' && e.path === ref.path && e.method === ref.method)?.id
+                        : undefined;
+                }
+            });
+        });
+    });
+
+    return endpoints;
+};
+
+export const resolveResponseContent = (content: unknown) => {
+    if (!content) return undefined;
+
+    // If it's already a processed content object, return it
+    if (isObject(content) && (content.type || content.schema)) return content;
+
+    return contentResolver(content);
+};
+
+// Every operation a path item may declare, in OpenAPI order
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Operation parameters override path-item parameters with the same name and location
+export const mergeParameters = (pathParameters: unknown[] = [], operationParameters: unknown[] = []) => {
+    const parameterKey = (param: unknown) => `${asObject(param).in ?? ''}:${asObject(param).name ?? ''}`;
+    const overridden = new Set(operationParameters.map(parameterKey));
+
+    return [
+        ...pathParameters.filter(param => !overridden.has(parameterKey(param))),
+        ...operationParameters
+    ];
+};
+
+// Default serialization style for each parameter location
+const DEFAULT_PARAMETER_STYLES: Record<string, string> = {
+    query: 'form',
+    cookie: 'form',
+    path: 'simple',
+    header: 'simple'
+};
+
+// OpenAPI 3.1 allows type arrays such as ['string', 'null']; the first non-null entry wins
+const primaryType = (type: unknown): string | undefined => {
+    if (Array.isArray(type)) return type.find(t => t !== 'null') ?? type[0];
+    return asString(type);
+};
+
+export const parameterMapper = (value: unknown): Parameter => {
+    const param = asObject(value);
+    const location = asString(param.in) ?? '';
+
+    // A parameter declares either a schema or a single content entry
+    const content = isObject(param.content) ? param.content : undefined;
+    const schema = objectAt(param, 'schema') ?? (content ? objectAt(Object.values(content)[0], 'schema') : undefined);
+
+    // Swagger 2.0 keeps type information on the parameter itself
+    const type = primaryType(get(schema, 'type', undefined)) ?? primaryType(param.type) ?? 'string';
+    const format = asString(get(schema, 'format', get(param, 'format', undefined)));
+
+    const style = asString(param.style) ?? (content ? undefined : DEFAULT_PARAMETER_STYLES[location]);
+
+    return {
+        name: asString(param.name) ?? '',
+        in: location,
+        description: asString(param.description) ?? '',
+        required: param.required === true,
+        deprecated: param.deprecated === true,
+        allowEmptyValue: typeof param.allowEmptyValue === 'boolean' ? param.allowEmptyValue : undefined,
+        type,
+        format,
+        schema,
+        style,
+        explode: typeof param.explode === 'boolean' ? param.explode : style === 'form',
+        allowReserved: param.allowReserved === true,
+        content,
+        example: param.example,
+        examples: isObject(param.examples) ? param.examples : undefined
+    };
+};
+
+// Fallback ids when no operationId is declared, kept distinct per endpoint kind
+const endpointIdFor = ({ path, method, kind, parentId, callbackName }: {
+    path: string;
+    method: string;
+    kind: EndpointKind;
+    parentId?: string;
+    callbackName?: string;
+}) => {
+    const pathSlug = path.replace(/\//g, '-').replace(/[{}]/g, '_');
+
+    if (kind === 'webhook') {
+        return `webhook-${method.toLowerCase()}-${kebabCase(path)}`;
+    }
+    if (kind === 'callback') {
+        return `${parentId}-callback-${kebabCase(callbackName)}-${method.toLowerCase()}`;
+    }
+    return `${method.toLowerCase()}-${pathSlug}`;
+};
+
+// Endpoint ids must be unique even when operationIds collide after kebab-casing (e.g. 'getUser' and 'get_user').
+// Later endpoints get a numeric suffix; the operationId-unique lint rule reports the collision.
+const uniqueEndpointId = (baseId: string, usedIds?: Set<string>) => {
+    if (!usedIds) return baseId;
+
+    let id = baseId;
+    for (let suffix = 2; usedIds.has(id); suffix++) id = `${baseId}-${suffix}`;
+    usedIds.add(id);
+    return id;
+};
+
+const methodDataMapper = ({
+    path,
+    method,
+    methodObj,
+    pathObj = {},
+    kind = 'operation',
+    parentId,
+    callbackName,
+    usedIds
+}: {
+    path: string;
+    method: string;
+    methodObj: unknown;
+    pathObj?: unknown;
+    kind?: EndpointKind;
+    parentId?: string;
+    callbackName?: string;
+    usedIds?: Set<string>;
+}): Endpoint => {
+    // Get method properties
+    const summary: string = get(methodObj, 'summary', '');
+    const description: string = get(methodObj, 'description', '');
+    const id: string = get(methodObj, 'operationId', '');
+    const tags = get(methodObj, 'tags', []);
+
+    // Get parameters, including those declared once for the whole path
+    const parametersArr = mergeParameters(get(pathObj, 'parameters', []), get(methodObj, 'parameters', []));
+    const parameters = parametersArr.map(parameterMapper);
+
+    // Get requestBody if it exists
+    const requestBodyObj = get(methodObj, 'requestBody', undefined);
+    const requestBody: RequestBody | undefined = requestBodyObj ? {
+        description: get(requestBodyObj, 'description', undefined),
+        required: get(requestBodyObj, 'required', false),
+        content: mediaTypesResolver(get(requestBodyObj, 'content', {}))
+    } : undefined;
+
+    // Get responses
+    const responsesObj = asObject(get(methodObj, 'responses', {}));
+    const responses = Object.entries(responsesObj).map(([statusCode, responseObj]) => {
+        // Handle both string and object responses
+        if (typeof responseObj === 'string') {
+            return {
+                statusCode,
+                description: responseObj,
+                content: undefined,
+                mediaTypes: []
+            };
+        }
+
+        // Handle response object with proper content resolution
+        const contentObj = get(responseObj, 'content', {});
+        const content = resolveResponseContent(contentObj);
+
+        return {
+            statusCode,
+            description: get(responseObj, 'description', ''),
+            content,
+            mediaTypes: mediaTypesResolver(contentObj),
+            headers: responseHeadersMapper(get(responseObj, 'headers', {})),
+            links: responseLinksMapper(get(responseObj, 'links', {}))
+        };
+    });
+
+    return {
+        id: uniqueEndpointId(id ? kebabCase(id) : endpointIdFor({ path, method, kind, parentId, callbackName }), usedIds),
+        kind,
+        operationId: id || undefined,
+        method: method.toUpperCase(),
+        path,
+        summary,
+        description,
+        tags,
+        parameters,
+        requestBody,
+        responses,
+        pathSummary: get(pathObj, 'summary', undefined),
+        pathDescription: get(pathObj, 'description', undefined),
+        servers: serversMapper(get(methodObj, 'servers', get(pathObj, 'servers', undefined))),
+        ...(kind === 'callback' ? { parentId, callbackName } : {})
+    };
+};
+
+// Maps every operation of a path item (a path, webhook or callback expression) to endpoints.
+// Callbacks declared on an operation are mapped recursively and linked back to it.
+const pathItemMapper = ({
+    path,
+    pathObj,
+    location,
+    kind = 'operation',
+    parentId,
+    callbackName,
+    usedIds,
+    onError
+}: {
+    path: string;
+    pathObj: unknown;
+    // Segments locating the path item in the document
+    location: string[];
+    kind?: EndpointKind;
+    parentId?: string;
+    callbackName?: string;
+    // Ids already taken by other endpoints of the spec
+    usedIds: Set<string>;
+    onError: (error: ValidationError) => void;
+}): Endpoint[] => {
+    const extracted: Endpoint[] = [];
+    if (!isObject(pathObj)) return extracted;
+
+    HTTP_METHODS.forEach(method => {
+        if (!pathObj[method]) return;
+
+        try {
+            const endpoint = methodDataMapper({
+                path,
+                method,
+                methodObj: pathObj[method],
+                pathObj,
+                kind,
+                parentId,
+                callbackName,
+                usedIds
+            });
+            extracted.push(endpoint);
+
+            // Callbacks are path items keyed by name, then by runtime expression
+            const callbacksObj = asObject(get(pathObj[method], 'callbacks', {}));
+            const callbackEndpoints: Endpoint[] = [];
+
+            Object.entries(callbacksObj).forEach(([name, callbackObj]) => {
+                Object.entries(asObject(callbackObj)).forEach(([expression, callbackPathObj]) => {
+                    callbackEndpoints.push(...pathItemMapper({
+                        path: expression,
+                        pathObj: callbackPathObj,
+                        location: [...location, method, 'callbacks', name, expression],
+                        kind: 'callback',
+                        parentId: endpoint.id,
+                        callbackName: name,
+                        usedIds,
+                        onError
+                    }));
+                });
+            });
+
+            if (callbackEndpoints.length > 0) {
+                // Only direct callbacks are linked; nested ones hang off their own parent
+                endpoint.callbacks = callbackEndpoints
+                    .filter(callback => callback.parentId === endpoint.id)
+                    .map(callback => callback.id);
+                extracted.push(...callbackEndpoints);
+            }
+        } catch (methodError) {
+            console.warn(`Error mapping method ${method} for ${location.join('.')}:`, methodError);
+
+            onError(createError('MAPPING_FAILED', `Error processing endpoint ${method.toUpperCase()} ${path}`, {
+                path: [...location, method].join('.'),
+                pointer: segmentsToPointer([...location, method]),
+                severity: 'warning',
+                cause: methodError
+            }));
+        }
+    });
+
+    return extracted;
+};
+
+    // Validation functions
+export const validateSpecFormat = (document: unknown): ValidationError[] => {
+    const errors: ValidationError[] = [];
+    
+    if (!document) {
+        errors.push(createError('EMPTY_SPEC', 'Specification is empty or undefined'));
+        return errors;
+    }
+    const spec = asObject(document);
+
+    // Check for minimum required OpenAPI fields
+    if (!spec.openapi && !spec.swagger) {
+        errors.push(createError('MISSING_SPEC_VERSION', 'Invalid API spec format: Missing OpenAPI/Swagger version identifier', {
+            pointer: ''
+        }));
+    } else {
+        // Check version compatibility
+        const version = spec.openapi || spec.swagger;
+        if (spec.openapi && !['3.0.0', '3.0.1', '3.0.2', '3.0.3', '3.1.0'].includes(String(version))) {
+            errors.push(createError('UNSUPPORTED_SPEC_VERSION', `OpenAPI version ${version} may not be fully supported. Recommended versions: 3.0.x or 3.1.0`, {
+                path: 'openapi',
+                pointer: '/openapi',
+                severity: 'warning'
+            }));
+        } else if (spec.swagger && version !== '2.0') {
+            errors.push(createError('UNSUPPORTED_SPEC_VERSION', `Swagger version ${version} may not be fully supported. Recommended version: 2.0`, {
+                path: 'swagger',
+                pointer: '/swagger',
+                severity: 'warning'
+            }));
+        }
+    }
+
+    const info = asObject(spec.info);
+    if (!spec.info) {
+        errors.push(createError('MISSING_INFO', 'Missing required "info" object in specification', { path: 'info', pointer: '' }));
+    } else {
+        if (!info.title) {
+            errors.push(createError('MISSING_TITLE', 'API specification is missing required title', { path: 'info.title', pointer: '/info' }));
+        }
+        
+        if (!info.version) {
+            errors.push(createError('MISSING_API_VERSION', 'API specification is missing version information', { path: 'info.version', pointer: '/info' }));
+        }
+    }
+
+    const hasWebhooks = Object.keys(asObject(spec.webhooks)).length > 0;
+
+    if (!spec.paths || Object.keys(asObject(spec.paths)).length === 0) {
+        // OpenAPI 3.1 documents may describe only webhooks
+        if (!hasWebhooks) {
+            errors.push(createError('NO_PATHS', 'API specification contains no endpoints (empty paths object)', {
+                pointer: spec.paths ? '/paths' : '',
+                severity: 'warning'
+            }));
+        }
+    } else {
+        // Check if paths have any operations
+        const hasOperations = Object.values(asObject(spec.paths)).some(pathObj => {
+            return Object.keys(asObject(pathObj)).some(key => 
+                HTTP_METHODS.includes(key.toLowerCase())
+            );
+        });
+        
+        if (!hasOperations) {
+            errors.push(createError('NO_OPERATIONS', 'API specification contains paths but no HTTP operations (GET, POST, etc.)', {
+                path: 'paths',
+                pointer: '/paths',
+                severity: 'warning'
+            }));
+        }
+    }
+
+    // Structural problems anywhere in the document, minus the ones already reported above
+    const reportedPaths = new Set(errors.map(existing => existing.path).filter(Boolean));
+    errors.push(...validateAgainstMetaSchema(document).filter(schemaError =>
+        !schemaError.path || !reportedPaths.has(schemaError.path)
+    ));
+
+    return errors;
+};
+
+// Explains why reading the spec failed: syntax errors located by the YAML parser (which also reads JSON),
+// or the exception itself when the text is fine
+const contentErrorsOf = (spec: ApiSpec, cause: unknown): ValidationError[] => {
+    if (typeof spec.content === 'object' && spec.content !== null) {
+        return [createError('UNEXPECTED', 'The specification could not be read', { cause })];
+    }
+    if (typeof spec.content !== 'string') {
+        return [createError('INVALID_CONTENT', 'Invalid specification format - must be a string or object', { cause })];
+    }
+
+    const syntaxErrors = buildSourceMap(spec.content).syntaxErrors.filter(syntaxError => syntaxError.severity === 'error');
+    if (syntaxErrors.length === 0) {
+        return [createError('UNEXPECTED', 'The specification could not be read', { cause })];
+    }
+    return syntaxErrors.map(syntaxError => ({ ...syntaxError, cause: toErrorCause(cause) }));
+};
+
+// Location attached to resolver exceptions, when there is one
+const locationOf = (resolveError: unknown): Pick<ValidationError, 'path' | 'pointer'> => {
+    const { fullPath } = asObject(resolveError);
+    if (!Array.isArray(fullPath)) return {};
+    const segments = fullPath.map(String);
+    return { path: segments.join('.') || undefined, pointer: segmentsToPointer(segments) };
+};
+
+// Result for a parse that failed around the parser rather than in it, e.g. a chunk that did not load
+export const failedParseResult = (cause: unknown): ParseResult => {
+    const failure = createError('UNEXPECTED', 'The specification could not be parsed', { cause });
+    return { endpoints: [], error: failure.message, validationErrors: [failure], specVersion: '' };
+};
+
+// Source locations for the issues of a spec given as text; objects have no text to point into
+const locateErrors = (spec: ApiSpec, errors: ValidationError[]) =>
+    typeof spec.content === 'string' ? attachSourceRanges(errors, buildSourceMap(spec.content)) : errors;
+
+// Parses, validates and resolves a spec into endpoints.
+// Runs inside the spec parser worker, or on the main thread where workers are unavailable.
+
+export const parseSpecDocument = async (
+    spec: ApiSpec,
+    onProgress?: (progress: ParseProgress) => void,
+    customRulesets: CustomRuleset[] = []
+): Promise<ParseResult> => {
+    let endpoints: Endpoint[] = [];
+    let error: string | null = null;
+    const validationErrors: ValidationError[] = [];
+    let specVersion = '';
+
+    onProgress?.({ stage: 'reading', percent: 10 });
+
+    try {
+        // Initialize variables for content
+        let jsonContent;
+        let tempUrl = null;
+        
+        try {
+            // Handle parsing based on content type
+            if (typeof spec.content === 'string') {
+                // Since OpenAPIParser.parse expects a file path, we need to create a Blob URL
+                try {
+                    // Create a Blob containing the specification content
+                    const specBlob = new Blob([spec.content], { 
+                        type: spec.format === 'yaml' ? 'application/yaml' : 'application/json' 
+                    });
+                    
+                    // Create a URL for the Blob
+                    tempUrl = URL.createObjectURL(specBlob);
+                    
+                    try {
+                        // Use OpenAPIParser.parse with the temporary URL
+                        jsonContent = await OpenAPIParser.parse(tempUrl);
+                    } catch (parserError) {
+                        console.warn('OpenAPIParser failed with Blob URL, trying direct parsing:', parserError);
+                        
+                        // Try direct parsing if OpenAPIParser fails with Blob URL
+                        if (spec.format === 'yaml' || spec.content.trim().startsWith('openapi:') || spec.content.trim().startsWith('swagger:')) {
+                            // Try YAML
+                            const jsyaml = await import('js-yaml');
+                            jsonContent = jsyaml.load(spec.content);
+                        } else {
+                            // Try JSON
+                            jsonContent = JSON.parse(spec.content);
+                        }
+                    }
+                } catch (blobError) {
+                    console.error('Error with Blob URL approach:', blobError);
+                    
+                    // Fallback: Try direct parsing if Blob approach fails
+                    try {
+                        // Try JSON parse first
+                        jsonContent = JSON.parse(spec.content);
+                    } catch {
+                        // If JSON fails, try YAML; its syntax errors are located below
+                        const jsyaml = await import('js-yaml');
+                        jsonContent = jsyaml.load(spec.content);
+                    }
+                }
+            } else if (typeof spec.content === 'object' && spec.content !== null) {
+                // If content is already an object, use it directly
+                jsonContent = spec.content;
+            } else {
+                throw new Error('Invalid specification format - must be a string or object');
+            }
+            
+            // Run basic schema validation
+            onProgress?.({ stage: 'validating', percent: 30 });
+            const initialValidationErrors = validateSpecFormat(jsonContent);
+            
+            if (initialValidationErrors.some(err => err.severity === 'error')) {
+                // If there are validation errors, set them but still try to parse
+                validationErrors.push(...initialValidationErrors);
+            }
+
+            // Example and style checks; loaded lazily because they build on this module
+            const [{ validateExamples }, { lintSpec }] = await Promise.all([
+                import('@/lib/example-validator'),
+                import('@/lib/lint-rules')
+            ]);
+            validationErrors.push(...validateExamples(jsonContent));
+            validationErrors.push(...lintSpec(jsonContent, spec.ruleset, customRulesets));
+            
+            // Determine spec version
+            const version = jsonContent.openapi ? 
+                `OpenAPI ${jsonContent.openapi}` : 
+                (jsonContent.swagger ? `Swagger ${jsonContent.swagger}` : 'Unknown');
+            specVersion = version;
+            
+        } catch (parseError) {
+            console.error('Error in initial parsing:', parseError);
+            const failures = contentErrorsOf(spec, parseError);
+            return {
+                endpoints: [],
+                error: `Failed to parse API specification: ${failures[0].message}`,
+                validationErrors: locateErrors(spec, failures),
+                specVersion
+            };
+        } finally {
+            // Clean up any temporary URL
+            if (tempUrl) {
+                URL.revokeObjectURL(tempUrl);
+            }
+        }
+
+        // Try to resolve with Swagger Client
+        try {
+            onProgress?.({ stage: 'resolving', percent: 50 });
+            const parsedSpec = await SwaggerClient.resolve({
+                spec: jsonContent,
+                allowMetaPatches: true,
+                validateSchema: true,
+                skipValidation: false
+            });
+
+            // Access the resolved and normalized spec
+            const api = parsedSpec.spec;
+
+            // References that could not be resolved are left in place and reported with their location
+            (parsedSpec.errors ?? []).forEach((resolveError: unknown) => {
+                const { fullPath, $ref } = asObject(resolveError);
+                const segments = Array.isArray(fullPath) ? fullPath.map(String) : [];
+                // The error is reported on the $ref itself; point at the object holding it
+                const location = segments[segments.length - 1] === '$ref' ? segments.slice(0, -1) : segments;
+                validationErrors.push(createError(
+                    'UNRESOLVED_REF',
+                    $ref ? `Could not resolve reference ${$ref}` : 'Could not resolve a reference',
+                    { path: location.join('.') || undefined, pointer: segmentsToPointer(location), cause: resolveError }
+                ));
+            });
+
+            // Extract endpoints
+            onProgress?.({ stage: 'extracting', percent: 80 });
+            const extractedEndpoints: Endpoint[] = [];
+
+            // Get paths and (OpenAPI 3.1) webhooks from the resolved spec
+            const paths = asObject(get(api, 'paths', {}));
+            const webhooks = asObject(get(api, 'webhooks', {}));
+
+            // Check if we actually got any paths or webhooks
+            if (Object.keys(paths).length === 0 && Object.keys(webhooks).length === 0) {
+                validationErrors.push(createError('NO_PATHS', 'API specification contains no paths or endpoints', { severity: 'warning' }));
+            }
+
+            const reportMappingError = (mappingError: ValidationError) => {
+                validationErrors.push(mappingError);
+            };
+            const usedIds = new Set<string>();
+
+            // Process each path and method
+            Object.entries(paths).forEach(([path, pathObj]) => {
+                extractedEndpoints.push(...pathItemMapper({
+                    path,
+                    pathObj,
+                    location: ['paths', path],
+                    usedIds,
+                    onError: reportMappingError
+                }));
+            });
+
+            // Webhooks are path items keyed by event name instead of a URL template
+            Object.entries(webhooks).forEach(([name, pathObj]) => {
+                extractedEndpoints.push(...pathItemMapper({
+                    path: name,
+                    pathObj,
+                    location: ['webhooks', name],
+                    kind: 'webhook',
+                    usedIds,
+                    onError: reportMappingError
+                }));
+            });
+
+            endpoints = resolveLinkTargets(extractedEndpoints);
+        } catch (swaggerError) {
+            console.error('Error parsing spec with Swagger Client:', swaggerError);
+
+            const resolveFailure = createError('RESOLVE_FAILED', 'The specification could not be resolved', {
+                ...locationOf(swaggerError),
+                cause: swaggerError
+            });
+            // The cause can quote large parts of the spec; it stays on the issue rather than in the summary
+            error = resolveFailure.message;
+            validationErrors.push(resolveFailure);
+            endpoints = [];
+        }
+    } catch (generalError) {
+        console.error('Unexpected error during spec parsing:', generalError);
+
+        const failure = createError('UNEXPECTED', 'The API specification has errors that prevent it from being parsed correctly', {
+            cause: generalError
+        });
+        error = failure.message;
+        validationErrors.push(failure);
+        endpoints = [];
+    }
+
+    return { endpoints, error, validationErrors: locateErrors(spec, validationErrors), specVersion };
+};
@@ -0,0 +1,280 @@
+// lib/spectral.ts
+import yaml from 'js-yaml';
+import Ajv from 'ajv';
+import get from 'lodash/get';
+import type { ValidationError } from '@/hooks/useOpenAPIParser';
+import type { CustomRuleset } from '@/lib/custom-rulesets';
+import { JsonPathSegment, parseJsonPath, queryJsonPath } from '@/lib/json-path';
+import type { LintRule, LintSeverity, LintViolation, Ruleset } from '@/lib/linter';
+import { asArray, asObject, asString, isObject, JsonObject } from '@/lib/spec-document';
+
+// Converts Spectral rulesets (.spectral.yaml) into lint rules. Supported:
+//   extends: spectral:oas (mapped to the built-in rulesets)
+//   rules with given, then (field, function, functionOptions), severity, message, description, recommended
+//   the core functions below; anything else is reported when the ruleset is imported
+
+export interface CompiledRuleset {
+    ruleset: Ruleset;
+    rules: LintRule[];
+    issues: ValidationError[];
+}
+
+type SpectralFunction = (value: unknown, options: JsonObject, context: { path: JsonPathSegment[] }) => string | null;
+
+const ajv = new Ajv({ allErrors: false, strict: false, validateFormats: false });
+
+// A regex given as `/source/flags` or as a bare pattern
+const toRegExp = (pattern: string) => {
+    const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+};
+
+const CASING_PATTERNS: Record<string, string> = {
+    flat: '[a-z][a-z{digits}]*',
+    camel: '[a-z][a-z{digits}]*(?:[A-Z{digits}](?:[a-z{digits}]+|$))*',
+    pascal: '[A-Z][a-z{digits}]*(?:[A-Z{digits}](?:[a-z{digits}]+|$))*',
+    kebab: '[a-z][a-z{digits}]*(?:-[a-z{digits}]+)*',
+    cobol: '[A-Z][A-Z{digits}]*(?:-[A-Z{digits}]+)*',
+    snake: '[a-z][a-z{digits}]*(?:_[a-z{digits}]+)*',
+    macro: '[A-Z][A-Z{digits}]*(?:_[A-Z{digits}]+)*'
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+
+const casingPattern = (options: JsonObject) => {
+    const base = CASING_PATTERNS[String(options.type)];
+    if (!base) throw new Error(`Unknown casing type '${options.type}'`);
+
+    const word = base.replace(/\{digits\}/g, options.disallowDigits ? '' : '0-9');
+    const { char: separator, allowLeading } = asObject(options.separator);
+    if (typeof separator !== 'string' || !separator) return new RegExp(`^${word}$`);
+
+    const escaped = escapeRegExp(separator);
+    const leading = allowLeading ? `${escaped}?` : '';
+    return new RegExp(`^${leading}${word}(?:${escaped}${word})*$`);
+};
+
+const lengthOf = (value: unknown) => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (typeof value === 'number') return value;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return null;
+};
+
+const SPECTRAL_FUNCTIONS: Record<string, SpectralFunction> = {
+    truthy: value => value ? null : 'must be truthy',
+    falsy: value => value ? 'must be falsy' : null,
+    defined: value => value === undefined ? 'must be defined' : null,
+    undefined: value => value === undefined ? null : 'must be undefined',
+    pattern: (value, options) => {
+        if (typeof value !== 'string') return null;
+        if (options.match && !toRegExp(String(options.match)).test(value)) return `must match the pattern '${options.match}'`;
+        if (options.notMatch && toRegExp(String(options.notMatch)).test(value)) return `must not match the pattern '${options.notMatch}'`;
+        return null;
+    },
+    casing: (value, options) => {
+        if (typeof value !== 'string' || value === '') return null;
+        return casingPattern(options).test(value) ? null : `must be ${options.type} case`;
+    },
+    enumeration: (value, options) => {
+        if (value === undefined || value === null) return null;
+        const values = asArray(options.values);
+        return values.includes(value) ? null : `must be equal to one of the allowed values: ${values.map(String).join(', ')}`;
+    },
+    length: (value, options) => {
+        const length = lengthOf(value);
+        if (length === null) return null;
+        if (typeof options.min === 'number' && length < options.min) return `must not be shorter than ${options.min}`;
+        if (typeof options.max === 'number' && length > options.max) return `must not be longer than ${options.max}`;
+        return null;
+    },
+    alphabetical: (value, options) => {
+        if (!Array.isArray(value)) return null;
+        const keyedBy = asString(options.keyedBy);
+        const keys = keyedBy ? value.map(item => asObject(item)[keyedBy]) : value;
+        const sorted = keys.every((key, index) => index === 0 || String(keys[index - 1]).localeCompare(String(key)) <= 0);
+        return sorted ? null : 'must be sorted alphabetically';
+    },
+    schema: (value, options) => {
+        if (value === undefined) return null;
+        const validate = ajv.compile(asObject(options.schema));
+        if (validate(value)) return null;
+        const [schemaError] = validate.errors ?? [];
+        return schemaError ? `${schemaError.instancePath || 'value'} ${schemaError.message}`.trim() : 'does not match the schema';
+    }
+};
+
+// The core function a rule calls, or undefined for functions this module does not implement
+const spectralFunction = (name: unknown): SpectralFunction | undefined =>
+    typeof name === 'string' && Object.prototype.hasOwnProperty.call(SPECTRAL_FUNCTIONS, name) ? SPECTRAL_FUNCTIONS[name] : undefined;
+
+// Spectral numbers severities 0 (error) to 3 (hint); hints show as info
+const toLintSeverity = (severity: unknown): LintSeverity | null => {
+    if (severity === undefined) return 'warn';
+    if (severity === 'off' || severity === false || severity === -1) return 'off';
+    if (severity === 'error' || severity === 0) return 'error';
+    if (severity === 'warn' || severity === 1) return 'warn';
+    if (severity === 'info' || severity === 'hint' || severity === 2 || severity === 3) return 'info';
+    return null;
+};
+
+// Extended Spectral rulesets mapped onto the built-in ones
+const EXTENDS_MAP: Record<string, { recommended: string; all: string }> = {
+    'spectral:oas': { recommended: 'recommended', all: 'strict' }
+};
+
+const formatMessage = (template: string, values: Record<string, string>) =>
+    template.replace(/\{\{(\w+)\}\}/g, (match, name) => values[name] ?? match);
+
+// Resolves a rule's `field` against the matched value
+const resolveField = (value: unknown, path: JsonPathSegment[], field?: string): { value: unknown; path: JsonPathSegment[] }[] => {
+    if (!field) return [{ value, path: [] }];
+    // '@key' checks every property name of an object, or the name the value itself is stored under
+    if (field === '@key') {
+        if (isObject(value)) {
+            return Object.keys(value).map(key => ({ value: key, path: [key] }));
+        }
+        return [{ value: path[path.length - 1], path: [] }];
+    }
+    if (field.startsWith('$')) return queryJsonPath(value, field);
+
+    const segments = field.split('.');
+    return [{ value: get(value, segments), path: segments }];
+};
+
+// Why a JSONPath expression cannot be evaluated, or null when it can
+const jsonPathError = (expression: unknown) => {
+    if (typeof expression !== 'string') return `${JSON.stringify(expression)} is not a JSONPath expression`;
+    try {
+        parseJsonPath(expression);
+        return null;
+    } catch (pathError) {
+        return pathError instanceof Error ? pathError.message : String(pathError);
+    }
+};
+
+// Paths a rule evaluates: its given expressions and any field written as JSONPath
+const rulePaths = (definition: JsonObject, thens: JsonObject[]): unknown[] => [
+    ...(Array.isArray(definition.given) ? definition.given : [definition.given]),
+    ...thens.map(then => then.field).filter(field => typeof field === 'string' && field.startsWith('$'))
+];
+
+const compileRule = (id: string, definition: JsonObject, issues: ValidationError[]): LintRule | null => {
+    const thens = (Array.isArray(definition.then) ? definition.then : [definition.then]).map(asObject);
+    const unsupported = thens.find(then => !spectralFunction(then.function));
+    if (!definition.given || unsupported) {
+        issues.push({
+            path: `rules.${id}`,
+            rule: id,
+            message: !definition.given
+                ? `Rule '${id}' has no 'given' path and was skipped`
+                : `Rule '${id}' uses the unsupported function '${unsupported?.function}' and was skipped`,
+            severity: 'warning'
+        });
+        return null;
+    }
+
+    // Checked here so an unsupported expression is reported on import rather than on every lint run
+    for (const expression of rulePaths(definition, thens)) {
+        const reason = jsonPathError(expression);
+        if (reason) {
+            issues.push({
+                path: `rules.${id}`,
+                rule: id,
+                message: `Rule '${id}' was skipped: ${reason}`,
+                severity: 'warning'
+            });
+            return null;
+        }
+    }
+
+    const severity = toLintSeverity(definition.severity);
+    const description = asString(definition.description);
+    const template = asString(definition.message);
+
+    return {
+        id,
+        description: description ?? id,
+        // Every entry was checked to be a string above
+        given: Array.isArray(definition.given) ? definition.given.map(String) : String(definition.given),
+        severity: severity && severity !== 'off' ? severity : 'warn',
+        check: (value, { path }) => thens.flatMap((then): LintViolation[] => {
+            return resolveField(value, path, asString(then.field)).flatMap(target => {
+                const error = spectralFunction(then.function)?.(target.value, asObject(then.functionOptions), { path });
+                if (!error) return [];
+
+                const fullPath = [...path, ...target.path];
+                const property = String(fullPath[fullPath.length - 1] ?? '');
+                const message = formatMessage(template ?? '{{error}}', {
+                    error: template ? error : `${property ? `'${property}' ` : ''}${error}`,
+                    property,
+                    path: fullPath.join('.'),
+                    description: description ?? '',
+                    value: typeof target.value === 'object' ? JSON.stringify(target.value) : String(target.value)
+                });
+                return [{ message, path: target.path }];
+            });
+        })
+    };
+};
+
+const compiledCache = new Map<string, CompiledRuleset>();
+
+// Compiles a stored Spectral ruleset into a ruleset plus the rules it defines
+export const compileSpectralRuleset = (custom: CustomRuleset): CompiledRuleset => {
+    const cacheKey = `${custom.id}\n${custom.source}`;
+    const cached = compiledCache.get(cacheKey);
+    if (cached) return cached;
+
+    const issues: ValidationError[] = [];
+    const rules: LintRule[] = [];
+    const ruleSettings: Ruleset['rules'] = {};
+    const parents: string[] = [];
+
+    let document: unknown;
+    try {
+        document = yaml.load(custom.source);
+    } catch (yamlError) {
+        const message = yamlError instanceof Error ? yamlError.message : String(yamlError);
+        issues.push({ message: `Ruleset is not valid YAML or JSON: ${message}`, severity: 'error' });
+    }
+
+    const { extends: extended, rules: definitions } = asObject(document);
+    const extendsList = extended === undefined ? [] : Array.isArray(extended) ? extended : [extended];
+    extendsList.forEach(entry => {
+        const [name, mode] = Array.isArray(entry) ? entry : [entry, 'recommended'];
+        const mapped = EXTENDS_MAP[String(name)];
+        if (!mapped) {
+            issues.push({ path: 'extends', message: `Extended ruleset '${name}' is not available and was ignored`, severity: 'warning' });
+        } else if (mode !== 'off') {
+            parents.push(mode === 'all' ? mapped.all : mapped.recommended);
+        }
+    });
+
+    Object.entries(asObject(definitions)).forEach(([id, definition]) => {
+        // A bare severity (or boolean) adjusts a rule defined elsewhere
+        if (!isObject(definition)) {
+            const severity = definition === true ? true : toLintSeverity(definition);
+            if (severity === null) {
+                issues.push({ path: `rules.${id}`, rule: id, message: `Rule '${id}' has an unknown severity`, severity: 'warning' });
+            } else {
+                ruleSettings[id] = severity;
+            }
+            return;
+        }
+
+        const rule = compileRule(id, definition, issues);
+        if (!rule) return;
+        rules.push(rule);
+        const disabled = definition.recommended === false || toLintSeverity(definition.severity) === 'off';
+        ruleSettings[id] = disabled ? 'off' : true;
+    });
+
+    const compiled: CompiledRuleset = {
+        ruleset: { id: custom.id, name: custom.name, description: 'Imported Spectral ruleset', extends: parents, rules: ruleSettings },
+        rules,
+        issues
+    };
+    compiledCache.set(cacheKey, compiled);
+    return compiled;
+};
@@ -1,5 +1,7 @@
-import { useState, useEffect, useRef } from "react";
-import Editor from "@monaco-editor/react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import Editor, { Monaco } from "@monaco-editor/react";
+import type { editor as MonacoEditor } from "monaco-editor";
+import Link from "next/link";
 import { Sidebar, SidebarProvider } from "@/components/ui/sidebar";
 import { Navbar } from "@/components/ui/navbar";
 import { Button } from "@/components/ui/button";
@@ -8,9 +10,25 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Search, Save, FileUp, FileDown, Trash2, Copy, Check, X, FileText, Plus, RefreshCw, UploadIcon } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Search, Save, FileUp, FileDown, Trash2, Copy, Check, X, FileText, Plus, RefreshCw, UploadIcon, ArrowUpCircle, ListChecks, ShieldCheck, Boxes, Pencil, ListTree, ChevronRight, ChevronDown, AlertCircle, AlertTriangle, Info, PanelBottom, PanelRight } from "lucide-react";
 import yaml from "js-yaml";
 import type { OpenAPIV3_1 } from "openapi-types";
+import { ValidationError, getErrorSuggestion, getMethodColor, getValidationSeverityClass, useQualityScores, useSpecAnalysis } from "@/hooks/useOpenAPIParser";
+import { getQualityScoreClass } from "@/lib/quality";
+import { BUILT_IN_RULESETS, DEFAULT_RULESET_ID } from "@/lib/lint-rules";
+import { CustomRuleset, loadCustomRulesets, saveCustomRulesets } from "@/lib/custom-rulesets";
+import { compileSpectralRuleset } from "@/lib/spectral";
+import { CUSTOM_RULE_TEMPLATE, CustomRule, loadCustomRules, saveCustomRules } from "@/lib/custom-rules";
+import type { LintSeverity } from "@/lib/linter";
+import { auditSecurity, groupByCategory } from "@/lib/security-rules";
+import { attachSourceRanges, buildSourceMap, SpecSourceMap } from "@/lib/source-map";
+import { CompletionEntry, getCompletions } from "@/lib/completions";
+import { definitionPointerAt, findRefAt, findReferences, isDefined, previewRef, refTargetPointer } from "@/lib/ref-navigation";
+import { analyzeComponents, ComponentEntry, ComponentReport, planComponentRemoval, planDuplicateCollapse } from "@/lib/component-cleanup";
+import { applyRenameEdits, listRenameableComponents, planComponentRename, RenameEdit, validateComponentName } from "@/lib/component-rename";
+import { findActiveNode, OutlineNode, toBreadcrumbs } from "@/lib/outline";
+import { convertOpenAPI30To31, convertOpenAPI31To30, convertSwagger2ToOpenAPI3, OpenAPITargetVersion } from "@/lib/openapi-convert";
 
 const LOCAL_STORAGE_KEY = "spec_view_saved_specs";
 
@@ -24,6 +42,7 @@ interface SavedSpec {
     version: string;
     tags?: string[];
     favorite?: boolean;
+    ruleset?: string;
 }
 
 const toKebabCase = (str: string) =>
@@ -85,6 +104,257 @@ const convertFormat = (content: string, targetFormat: "yaml" | "json"): string =
     }
 };
 
+// Serializes a converted document back into the editor's current format
+const serializeSpec = (spec: unknown, format: "yaml" | "json"): string => {
+    if (format === "json") return JSON.stringify(spec, null, 2);
+    // noRefs keeps shared objects inline instead of emitting YAML anchors
+    return yaml.dump(spec, { lineWidth: -1, noRefs: true });
+};
+
+// Reads the spec's version family from its root field without parsing the whole document
+const detectSpecVersion = (content: string): "2.0" | "3.0" | "3.1" | null => {
+    if (/^\s*["']?swagger["']?\s*:\s*["']?2\.0/m.test(content)) return "2.0";
+    const match = content.match(/^\s*["']?openapi["']?\s*:\s*["']?(3\.[01])/m);
+    return match ? (match[1] as "3.0" | "3.1") : null;
+};
+
+const MARKER_OWNER = "spec-view";
+
+const MARKER_SEVERITIES: Record<ValidationError["severity"], (monaco: Monaco) => number> = {
+    error: monaco => monaco.MarkerSeverity.Error,
+    warning: monaco => monaco.MarkerSeverity.Warning,
+    info: monaco => monaco.MarkerSeverity.Info,
+};
+
+const SEVERITY_RANK: Record<ValidationError["severity"], number> = { error: 2, warning: 1, info: 0 };
+
+// Squiggles and hover messages for diagnostics that have a source range
+const toMarkers = (monaco: Monaco, diagnostics: ValidationError[]) =>
+    diagnostics.filter(diagnostic => diagnostic.range).map(diagnostic => ({
+        ...diagnostic.range!,
+        message: diagnostic.message,
+        source: diagnostic.pointer ? `#${diagnostic.pointer}` : undefined,
+        code: diagnostic.rule,
+        severity: MARKER_SEVERITIES[diagnostic.severity](monaco),
+    }));
+
+const COMPLETION_KINDS: Record<CompletionEntry["kind"], (monaco: Monaco) => number> = {
+    property: monaco => monaco.languages.CompletionItemKind.Property,
+    value: monaco => monaco.languages.CompletionItemKind.EnumMember,
+    reference: monaco => monaco.languages.CompletionItemKind.Reference,
+    snippet: monaco => monaco.languages.CompletionItemKind.Snippet,
+};
+
+// OpenAPI completions for the spec editor, in both of its formats. Providers are global to Monaco,
+// so the returned disposables must be released when the editor unmounts.
+const registerCompletionProviders = (monaco: Monaco) =>
+    (["yaml", "json"] as const).map(language => monaco.languages.registerCompletionItemProvider(language, {
+        triggerCharacters: [" ", "\""],
+        provideCompletionItems: (model, position) => {
+            const result = getCompletions(model.getValue(), model.getOffsetAt(position), language);
+            if (!result) return { suggestions: [] };
+
+            // Replace what was typed, plus a closing quote the editor inserted
+            const range = {
+                startLineNumber: position.lineNumber,
+                startColumn: position.column - result.context.prefix.length,
+                endLineNumber: position.lineNumber,
+                endColumn: position.column + result.context.suffixLength,
+            };
+            return {
+                suggestions: result.entries.map(entry => ({
+                    label: entry.label,
+                    kind: COMPLETION_KINDS[entry.kind](monaco),
+                    insertText: entry.insertText,
+                    insertTextRules: entry.isSnippet ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+                    filterText: entry.filterText,
+                    sortText: entry.sortText,
+                    detail: entry.detail,
+                    documentation: entry.documentation,
+                    range,
+                })),
+            };
+        },
+    }));
+
+// Source maps of editor models, rebuilt only when the model changes
+const sourceMapCache = new WeakMap<object, { versionId: number; sourceMap: SpecSourceMap }>();
+
+const sourceMapOf = (model: MonacoEditor.ITextModel): SpecSourceMap => {
+    const cached = sourceMapCache.get(model);
+    if (cached && cached.versionId === model.getVersionId()) return cached.sourceMap;
+
+    const sourceMap = buildSourceMap(model.getValue());
+    sourceMapCache.set(model, { versionId: model.getVersionId(), sourceMap });
+    return sourceMap;
+};
+
+// Ctrl-click, hover and "find all references" for $refs
+const registerRefProviders = (monaco: Monaco) =>
+    ["yaml", "json"].flatMap(language => [
+        monaco.languages.registerDefinitionProvider(language, {
+            provideDefinition: (model, position) => {
+                const sourceMap = sourceMapOf(model);
+                const location = findRefAt(sourceMap, model.getOffsetAt(position));
+                const pointer = location && refTargetPointer(location.ref);
+                if (!pointer || !isDefined(sourceMap, pointer)) return null;
+
+                const range = sourceMap.locate(pointer);
+                return range ? { uri: model.uri, range } : null;
+            },
+        }),
+        monaco.languages.registerHoverProvider(language, {
+            provideHover: (model, position) => {
+                const sourceMap = sourceMapOf(model);
+                const location = findRefAt(sourceMap, model.getOffsetAt(position));
+                const preview = location && sourceMap.document ? previewRef(sourceMap.document, location.ref) : null;
+                if (!location || !preview) return null;
+
+                return { range: location.range, contents: [{ value: preview }] };
+            },
+        }),
+        monaco.languages.registerReferenceProvider(language, {
+            provideReferences: (model, position, context) => {
+                const sourceMap = sourceMapOf(model);
+                const pointer = definitionPointerAt(sourceMap, model.getOffsetAt(position));
+                if (!pointer) return [];
+
+                const references = findReferences(sourceMap, pointer).map(location => ({ uri: model.uri, range: location.range }));
+                const declaration = context.includeDeclaration ? sourceMap.locate(pointer) : null;
+                return declaration ? [{ uri: model.uri, range: declaration }, ...references] : references;
+            },
+        }),
+    ]);
+
+// Gutter icons, one per line, showing the most severe diagnostic on that line
+const toGlyphDecorations = (diagnostics: ValidationError[]) => {
+    const byLine = new Map<number, ValidationError>();
+    diagnostics.forEach(diagnostic => {
+        if (!diagnostic.range) return;
+        const line = diagnostic.range.startLineNumber;
+        const existing = byLine.get(line);
+        if (!existing || SEVERITY_RANK[diagnostic.severity] > SEVERITY_RANK[existing.severity]) {
+            byLine.set(line, diagnostic);
+        }
+    });
+
+    return Array.from(byLine.entries()).map(([line, diagnostic]) => ({
+        range: { startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 },
+        options: {
+            glyphMarginClassName: `spec-glyph-${diagnostic.severity}`,
+            glyphMarginHoverMessage: { value: diagnostic.message },
+        },
+    }));
+};
+
+const LINT_SEVERITIES: LintSeverity[] = ["error", "warn", "info", "off"];
+
+interface RulesPanelProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    rules: CustomRule[];
+    onChange: (rules: CustomRule[]) => void;
+    onSave: () => void;
+    isSaved: boolean;
+    diagnostics: ValidationError[];
+}
+
+// Side panel for writing custom lint rules; edits apply to the open spec immediately and persist on save
+const RulesPanel = ({ open, onOpenChange, rules, onChange, onSave, isSaved, diagnostics }: RulesPanelProps) => {
+    const updateRule = (id: string, changes: Partial<CustomRule>) =>
+        onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+    const addRule = () => onChange([...rules, {
+        id: `rule-${Date.now()}`,
+        name: `custom-rule-${rules.length + 1}`,
+        given: "$.paths[*][get,put,post,delete,patch]",
+        severity: "warn",
+        code: CUSTOM_RULE_TEMPLATE,
+    }]);
+
+    return (
+        <Sheet open={open} onOpenChange={onOpenChange}>
+            <SheetContent className="bg-slate-800 text-white border-slate-700 sm:max-w-2xl w-full overflow-auto">
+                <SheetHeader>
+                    <SheetTitle className="text-white">Custom Rules</SheetTitle>
+                    <SheetDescription className="text-slate-300">
+                        Each rule is a JavaScript function called with every node its JSONPath selects. Return a message for each
+                        problem. Rules run in a separate worker and are stopped if they take too long, but they run with this
+                        site&apos;s permissions, so only add rules you trust.
+                    </SheetDescription>
+                </SheetHeader>
+
+                <div className="space-y-4 mt-4">
+                    {rules.map(rule => {
+                        const results = diagnostics.filter(diagnostic => diagnostic.rule === rule.id);
+                        return (
+                            <div key={rule.id} className="p-3 rounded-md bg-slate-700 space-y-2">
+                                <div className="flex items-center space-x-2">
+                                    <Input
+                                        value={rule.name}
+                                        onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                                        className="bg-slate-800 border-slate-600 text-sm"
+                                        placeholder="Rule name"
+                                    />
+                                    <select
+                                        value={rule.severity}
+                                        onChange={(e) => updateRule(rule.id, { severity: e.target.value as LintSeverity })}
+                                        className="h-9 rounded-md bg-slate-800 border border-slate-600 px-2 text-sm"
+                                    >
+                                        {LINT_SEVERITIES.map(severity => (
+                                            <option key={severity} value={severity}>{severity}</option>
+                                        ))}
+                                    </select>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-9 w-9 shrink-0 text-slate-300 hover:text-red-400"
+                                        onClick={() => onChange(rules.filter(candidate => candidate.id !== rule.id))}
+                                    >
+                                        <Trash2 size={14} />
+                                    </Button>
+                                </div>
+                                <Input
+                                    value={rule.given}
+                                    onChange={(e) => updateRule(rule.id, { given: e.target.value })}
+                                    className="bg-slate-800 border-slate-600 font-mono text-xs"
+                                    placeholder="$.paths[*][get,post]"
+                                />
+                                <div className="h-44 rounded border border-slate-600 overflow-hidden">
+                                    <Editor
+                                        height="100%"
+                                        theme="vs-dark"
+                                        language="javascript"
+                                        value={rule.code}
+                                        onChange={(value) => updateRule(rule.id, { code: value ?? "" })}
+                                        options={{ minimap: { enabled: false }, lineNumbers: "off", tabSize: 4, automaticLayout: true }}
+                                    />
+                                </div>
+                                <div className="text-xs text-slate-400">
+                                    {rule.severity === "off"
+                                        ? "Disabled"
+                                        : `${results.length} ${results.length === 1 ? "result" : "results"} in the current spec`}
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    <div className="flex justify-between">
+                        <Button variant="outline" onClick={addRule} className="border-slate-600 text-slate-300 hover:bg-slate-700">
+                            <Plus size={16} className="mr-2" />
+                            Add Rule
+                        </Button>
+                        <Button onClick={onSave} disabled={isSaved} className="bg-blue-600 hover:bg-blue-700">
+                            <Save size={16} className="mr-2" />
+                            {isSaved ? "Rules Saved" : "Save Rules"}
+                        </Button>
+                    </div>
+                </div>
+            </SheetContent>
+        </Sheet>
+    );
+};
+
 // Examples for new users
 const EXAMPLE_SPECS = [
     {
@@ -126,6 +396,206 @@ components:
     }
 ];
 
+interface OutlinePanelProps {
+    outline: OutlineNode[];
+    cursorPointer: string;
+    onNavigate: (pointer: string) => void;
+}
+
+// Tree of the spec's sections beside the editor, highlighting the node the cursor is in
+const OutlinePanel = ({ outline, cursorPointer, onNavigate }: OutlinePanelProps) => {
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const panelRef = useRef<HTMLDivElement>(null);
+    const activePointer = findActiveNode(outline, cursorPointer)?.pointer ?? null;
+
+    // Expand the nodes around the cursor and scroll its node into view
+    useEffect(() => {
+        if (activePointer === null) return;
+        setCollapsed(previous => {
+            const ancestors = Array.from(previous).filter(pointer => activePointer.startsWith(`${pointer}/`));
+            if (ancestors.length === 0) return previous;
+            const next = new Set(previous);
+            ancestors.forEach(pointer => next.delete(pointer));
+            return next;
+        });
+        panelRef.current?.querySelector("[data-active='true']")?.scrollIntoView({ block: "nearest" });
+    }, [activePointer]);
+
+    const toggle = (pointer: string) => {
+        setCollapsed(previous => {
+            const next = new Set(previous);
+            if (next.has(pointer)) {
+                next.delete(pointer);
+            } else {
+                next.add(pointer);
+            }
+            return next;
+        });
+    };
+
+    const renderNode = (node: OutlineNode, depth: number) => {
+        const expanded = !collapsed.has(node.pointer);
+        const active = node.pointer === activePointer;
+
+        return (
+            <li key={node.pointer}>
+                <div
+                    data-active={active}
+                    className={`flex items-center py-0.5 pr-2 rounded cursor-pointer text-xs ${active ? "bg-slate-600 text-white" : "text-slate-300 hover:bg-slate-700"}`}
+                    style={{ paddingLeft: depth * 12 }}
+                    onClick={() => onNavigate(node.pointer)}
+                >
+                    {node.children.length > 0 ? (
+                        <span
+                            className="text-slate-400"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                toggle(node.pointer);
+                            }}
+                        >
+                            {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                        </span>
+                    ) : (
+                        <span className="w-3" />
+                    )}
+                    {node.method && (
+                        <span className={`${getMethodColor(node.method)} text-white text-[10px] uppercase rounded px-1 mx-1`}>{node.method}</span>
+                    )}
+                    <span className="truncate ml-1" title={node.label}>{node.label}</span>
+                    {node.detail && <span className="ml-auto pl-2 text-slate-500 truncate">{node.detail}</span>}
+                </div>
+                {expanded && node.children.length > 0 && (
+                    <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <div ref={panelRef} className="w-64 overflow-auto border-l border-slate-700 bg-slate-800 p-2">
+            {outline.length === 0 ? (
+                <p className="text-xs text-slate-400 italic">Nothing to outline</p>
+            ) : (
+                <ul>{outline.map(node => renderNode(node, 0))}</ul>
+            )}
+        </div>
+    );
+};
+
+const SEVERITIES: ValidationError["severity"][] = ["error", "warning", "info"];
+
+const SEVERITY_LABELS: Record<ValidationError["severity"], string> = { error: "Errors", warning: "Warnings", info: "Info" };
+
+const SEVERITY_ICONS: Record<ValidationError["severity"], typeof AlertCircle> = { error: AlertCircle, warning: AlertTriangle, info: Info };
+
+type ProblemsDock = "bottom" | "side";
+
+interface ProblemsPanelProps {
+    diagnostics: ValidationError[];
+    counts: Record<ValidationError["severity"], number>;
+    dock: ProblemsDock;
+    onDockChange: (dock: ProblemsDock) => void;
+    onClose: () => void;
+    onSelect: (diagnostic: ValidationError) => void;
+}
+
+// Every diagnostic of the spec, by position, docked under or beside the editor
+const ProblemsPanel = ({ diagnostics, counts, dock, onDockChange, onClose, onSelect }: ProblemsPanelProps) => {
+    const [hidden, setHidden] = useState<Set<ValidationError["severity"]>>(new Set());
+
+    const problems = useMemo(() =>
+        diagnostics
+            .filter(diagnostic => !hidden.has(diagnostic.severity))
+            .sort((a, b) =>
+                (a.range?.startLineNumber ?? 0) - (b.range?.startLineNumber ?? 0)
+                || (a.range?.startColumn ?? 0) - (b.range?.startColumn ?? 0)
+                || SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]
+            ),
+    [diagnostics, hidden]);
+
+    const toggle = (severity: ValidationError["severity"]) => {
+        setHidden(previous => {
+            const next = new Set(previous);
+            if (next.has(severity)) {
+                next.delete(severity);
+            } else {
+                next.add(severity);
+            }
+            return next;
+        });
+    };
+
+    return (
+        <div className={`flex flex-col bg-slate-800 ${dock === "bottom" ? "h-48 mt-2 rounded-lg border border-slate-700" : "w-80 border-l border-slate-700"}`}>
+            <div className="flex items-center flex-wrap gap-1 px-2 py-1 border-b border-slate-700 text-xs">
+                <span className="font-medium text-slate-200 mr-2">Problems</span>
+                {SEVERITIES.map(severity => {
+                    const Icon = SEVERITY_ICONS[severity];
+                    return (
+                        <button
+                            key={severity}
+                            onClick={() => toggle(severity)}
+                            className={`flex items-center rounded px-1.5 py-0.5 ${hidden.has(severity) ? "text-slate-500" : "bg-slate-700 text-slate-200"}`}
+                            title={`${hidden.has(severity) ? "Show" : "Hide"} ${SEVERITY_LABELS[severity].toLowerCase()}`}
+                        >
+                            <Icon size={12} className={`mr-1 ${getValidationSeverityClass(severity)}`} />
+                            {SEVERITY_LABELS[severity]} {counts[severity]}
+                        </button>
+                    );
+                })}
+                <div className="ml-auto flex items-center space-x-1 text-slate-400">
+                    <button
+                        className="hover:text-slate-200"
+                        onClick={() => onDockChange(dock === "bottom" ? "side" : "bottom")}
+                        title={dock === "bottom" ? "Dock beside the editor" : "Dock under the editor"}
+                    >
+                        {dock === "bottom" ? <PanelRight size={14} /> : <PanelBottom size={14} />}
+                    </button>
+                    <button className="hover:text-slate-200" onClick={onClose} title="Close problems">
+                        <X size={14} />
+                    </button>
+                </div>
+            </div>
+            <div className="flex-1 overflow-auto">
+                {problems.length === 0 ? (
+                    <p className="p-2 text-xs text-slate-400 italic">
+                        {diagnostics.length === 0 ? "No problems found" : "All problems are filtered out"}
+                    </p>
+                ) : (
+                    <ul>
+                        {problems.map((problem, index) => {
+                            const Icon = SEVERITY_ICONS[problem.severity];
+                            const suggestion = getErrorSuggestion(problem);
+                            const code = problem.rule ?? problem.code;
+                            return (
+                                <li
+                                    key={index}
+                                    className={`flex items-start px-2 py-1 text-xs border-b border-slate-700/50 ${problem.range ? "cursor-pointer hover:bg-slate-700" : ""}`}
+                                    onClick={() => onSelect(problem)}
+                                >
+                                    <Icon size={14} className={`mr-2 mt-0.5 shrink-0 ${getValidationSeverityClass(problem.severity)}`} />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-slate-200 break-words">
+                                            {problem.message}
+                                            {code && <span className="ml-2 text-slate-500">{code}</span>}
+                                        </div>
+                                        {suggestion && <div className="text-teal-300">{suggestion}</div>}
+                                    </div>
+                                    {problem.range && (
+                                        <span className="ml-2 shrink-0 text-slate-500 font-mono">
+                                            Ln {problem.range.startLineNumber}, Col {problem.range.startColumn}
+                                        </span>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
 const EditorPage = () => {
     // State management
     const [specs, setSpecs] = useState<SavedSpec[]>([]);
@@ -134,6 +604,7 @@ const EditorPage = () => {
     const [specTitle, setSpecTitle] = useState<string>("");
     const [specVersion, setSpecVersion] = useState<string>("1.0.0");
     const [specFormat, setSpecFormat] = useState<"yaml" | "json">("yaml");
+    const [specRuleset, setSpecRuleset] = useState<string>(DEFAULT_RULESET_ID);
     const [searchTerm, setSearchTerm] = useState<string>("");
     const [error, setError] = useState<string | null>(null);
     const [isSaved, setIsSaved] = useState<boolean>(true);
@@ -144,8 +615,33 @@ const EditorPage = () => {
     const [importName, setImportName] = useState<string>("");
     const [autoDetectTitle, setAutoDetectTitle] = useState<boolean>(true);
     const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [conversionReport, setConversionReport] = useState<{ title: string; description?: string; issues: ValidationError[] } | null>(null);
+    const [customRulesets, setCustomRulesets] = useState<CustomRuleset[]>([]);
+    const [customRules, setCustomRules] = useState<CustomRule[]>([]);
+    const [customRulesSaved, setCustomRulesSaved] = useState<boolean>(true);
+    const [showRulesPanel, setShowRulesPanel] = useState<boolean>(false);
+    const [securityFindings, setSecurityFindings] = useState<ValidationError[] | null>(null);
+    const [componentReport, setComponentReport] = useState<ComponentReport | null>(null);
+    const [showOutline, setShowOutline] = useState<boolean>(true);
+    const [showProblems, setShowProblems] = useState<boolean>(true);
+    const [problemsDock, setProblemsDock] = useState<ProblemsDock>("bottom");
+    // JSON pointer of the node under the cursor
+    const [cursorPointer, setCursorPointer] = useState<string>("");
+    const [componentRename, setComponentRename] = useState<{ components: ComponentEntry[]; selectedRef: string; newName: string } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const rulesetInputRef = useRef<HTMLInputElement>(null);
     const editorRef = useRef<any>(null);
+    const monacoRef = useRef<Monaco | null>(null);
+    const glyphDecorationsRef = useRef<MonacoEditor.IEditorDecorationsCollection | null>(null);
+    const languageProvidersRef = useRef<{ dispose: () => void }[]>([]);
+    const cursorTimerRef = useRef<ReturnType<typeof setTimeout>>();
+    const qualityScores = useQualityScores(specs);
+    const { diagnostics, outline } = useSpecAnalysis(editorValue, { ruleset: specRuleset, customRulesets, customRules });
+    const problemCounts = useMemo(() => {
+        const counts: Record<ValidationError["severity"], number> = { error: 0, warning: 0, info: 0 };
+        diagnostics.forEach(diagnostic => counts[diagnostic.severity]++);
+        return counts;
+    }, [diagnostics]);
 
     // Load saved specs on initial render
     useEffect(() => {
@@ -171,6 +667,152 @@ const EditorPage = () => {
         }
     }, []);
 
+    // Load imported rulesets and custom rules on initial render
+    useEffect(() => {
+        setCustomRulesets(loadCustomRulesets());
+        setCustomRules(loadCustomRules());
+    }, []);
+
+    // Release the language providers along with the editor
+    useEffect(() => () => {
+        languageProvidersRef.current.forEach(provider => provider.dispose());
+        languageProvidersRef.current = [];
+        clearTimeout(cursorTimerRef.current);
+    }, []);
+
+    // Render diagnostics as markers and gutter icons whenever they change
+    useEffect(() => {
+        const editor = editorRef.current;
+        const monaco = monacoRef.current;
+        const model = editor?.getModel();
+        if (!editor || !monaco || !model) return;
+
+        monaco.editor.setModelMarkers(model, MARKER_OWNER, toMarkers(monaco, diagnostics));
+        const glyphDecorations: MonacoEditor.IEditorDecorationsCollection = glyphDecorationsRef.current ?? editor.createDecorationsCollection();
+        glyphDecorationsRef.current = glyphDecorations;
+        glyphDecorations.set(toGlyphDecorations(diagnostics));
+    }, [diagnostics]);
+
+    // Run the OWASP security rules against the current editor content
+    const runSecurityAudit = () => {
+        const sourceMap = buildSourceMap(editorValue);
+        if (sourceMap.syntaxErrors.length > 0) {
+            setError("Fix the syntax errors before running the security audit");
+            return;
+        }
+        setSecurityFindings(attachSourceRanges(auditSecurity(sourceMap.document), sourceMap));
+    };
+
+    // Moves the cursor to a location and focuses the editor
+    const revealInEditor = (range: { startLineNumber: number; startColumn: number }) => {
+        const editor = editorRef.current;
+        if (!editor) return;
+
+        editor.revealLineInCenter(range.startLineNumber);
+        editor.setPosition({ lineNumber: range.startLineNumber, column: range.startColumn });
+        editor.focus();
+    };
+
+    const revealFinding = (finding: ValidationError) => {
+        if (!editorRef.current || !finding.range) return;
+
+        setSecurityFindings(null);
+        revealInEditor(finding.range);
+    };
+
+    const revealProblem = (problem: ValidationError) => {
+        if (problem.range) revealInEditor(problem.range);
+    };
+
+    // Navigation from the outline and breadcrumbs
+    const revealPointer = (pointer: string) => {
+        const model = editorRef.current?.getModel();
+        const range = model && sourceMapOf(model).locate(pointer);
+        if (range) revealInEditor(range);
+    };
+
+    // Report components that are unused or defined more than once
+    const openComponentCleanup = () => {
+        try {
+            setComponentReport(analyzeComponents(yaml.load(editorValue)));
+        } catch (err) {
+            setError(`Failed to analyze components: ${err instanceof Error ? err.message : err}`);
+        }
+    };
+
+    // Applied through the editor so the whole change is a single undo step
+    const applySourceEdits = (source: string, edits: RenameEdit[]) => {
+        const editor = editorRef.current;
+        if (editor) {
+            editor.pushUndoStop();
+            editor.executeEdits("spec-refactoring", edits.map(change => ({ range: change.range, text: change.text })));
+            editor.pushUndoStop();
+        } else {
+            setEditorValue(applyRenameEdits(source, edits));
+            setIsSaved(false);
+        }
+    };
+
+    // Remove unused components or collapse duplicates, rewriting $refs, then refresh the report.
+    // Only the affected text is edited, so comments and formatting elsewhere are kept.
+    const applyComponentCleanup = (action: "remove-unused" | "collapse-duplicates") => {
+        try {
+            const sourceMap = buildSourceMap(editorValue);
+            if (sourceMap.syntaxErrors.some(syntaxError => syntaxError.severity === "error")) {
+                setError("Fix the syntax errors before cleaning up components");
+                return;
+            }
+
+            const report = analyzeComponents(sourceMap.document);
+            const edits = action === "remove-unused"
+                ? planComponentRemoval(sourceMap, report.unused)
+                : planDuplicateCollapse(editorValue, sourceMap, report.duplicates);
+
+            applySourceEdits(editorValue, edits);
+            setError(null);
+            setComponentReport(analyzeComponents(buildSourceMap(applyRenameEdits(editorValue, edits)).document));
+        } catch (err) {
+            setError(`Failed to clean up components: ${err instanceof Error ? err.message : err}`);
+        }
+    };
+
+    // Open the rename dialog, preselecting the component at `pointer` (or the one a $ref there points at)
+    const openComponentRename = (source: string, pointer?: string | null) => {
+        const sourceMap = buildSourceMap(source);
+        if (sourceMap.syntaxErrors.some(syntaxError => syntaxError.severity === "error")) {
+            setError("Fix the syntax errors before renaming a component");
+            return;
+        }
+
+        const components = listRenameableComponents(sourceMap.document);
+        if (components.length === 0) {
+            setError("This specification has no components to rename");
+            return;
+        }
+
+        const selected = components.find(component => pointer && `#${pointer}/`.startsWith(`${component.ref}/`)) ?? components[0];
+        setComponentRename({ components, selectedRef: selected.ref, newName: selected.name });
+    };
+
+    // The edits a rename would make, or why it cannot be made
+    const renamePlan = useMemo(() => {
+        if (!componentRename) return null;
+        const component = componentRename.components.find(candidate => candidate.ref === componentRename.selectedRef);
+        if (!component) return null;
+
+        const sourceMap = buildSourceMap(editorValue);
+        const problem = validateComponentName(sourceMap.document, component, componentRename.newName);
+        return problem
+            ? { problem, edits: [], preview: [] }
+            : { problem: null, ...planComponentRename(editorValue, sourceMap, component, componentRename.newName) };
+    }, [componentRename, editorValue]);
+
+    const applyComponentRename = () => {
+        if (!renamePlan || renamePlan.problem) return;
+        applySourceEdits(editorValue, renamePlan.edits);
+        setComponentRename(null);
+    };
+
     // Handle editor changes
     const handleEditorChange = (value: string | undefined) => {
         if (value !== undefined) {
@@ -226,6 +868,7 @@ const saveSpec = () => {
             version: specVersion,
             tags: currentSpec?.tags || [],
             favorite: currentSpec?.favorite || false,
+            ruleset: specRuleset,
         };
 
         console.log("Saving spec:", newSpec.name);
@@ -283,6 +926,7 @@ const saveSpec = () => {
         setSpecTitle(spec.name);
         setSpecVersion(spec.version);
         setSpecFormat(spec.format);
+        setSpecRuleset(spec.ruleset || DEFAULT_RULESET_ID);
         setError(null);
         setIsSaved(true);
     };
@@ -300,6 +944,7 @@ const saveSpec = () => {
         setSpecTitle("New Spec");
         setSpecVersion("1.0.0");
         setSpecFormat("yaml");
+        setSpecRuleset(DEFAULT_RULESET_ID);
         setError(null);
         setIsSaved(true);
     };
@@ -395,6 +1040,45 @@ const saveSpec = () => {
         }
     };
 
+    // Import a Spectral ruleset file and apply it to the current spec
+    const handleRulesetFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            const ruleset: CustomRuleset = {
+                id: `spectral-${Date.now()}`,
+                name: file.name.replace(/\.(json|yaml|yml)$/, "").replace(/^\./, "") || "Spectral ruleset",
+                format: "spectral",
+                source: event.target?.result as string,
+                importedAt: Date.now(),
+            };
+
+            const { rules, issues } = compileSpectralRuleset(ruleset);
+            if (issues.some(issue => issue.severity === "error")) {
+                setError(issues[0].message);
+                return;
+            }
+
+            const updatedRulesets = [...customRulesets, ruleset];
+            setCustomRulesets(updatedRulesets);
+            saveCustomRulesets(updatedRulesets);
+            setSpecRuleset(ruleset.id);
+            setIsSaved(false);
+            setConversionReport({
+                title: `Imported ruleset "${ruleset.name}"`,
+                description: `${rules.length} ${rules.length === 1 ? "rule" : "rules"} imported and applied to the current spec.`,
+                issues,
+            });
+        };
+        reader.readAsText(file);
+
+        if (rulesetInputRef.current) {
+            rulesetInputRef.current.value = "";
+        }
+    };
+
     // Export current spec to file
     const handleExport = () => {
         if (!currentSpec) return;
@@ -426,6 +1110,44 @@ const saveSpec = () => {
         }
     };
 
+    // Upgrade a Swagger 2.0 document to OpenAPI 3.x in place
+    const handleUpgrade = (targetVersion: OpenAPITargetVersion) => {
+        try {
+            const parsed = yaml.load(editorValue);
+            const { spec, issues } = convertSwagger2ToOpenAPI3(parsed, targetVersion);
+            if (issues.some(issue => issue.severity === "error") && spec === parsed) {
+                setError(issues[0].message);
+                return;
+            }
+
+            setEditorValue(serializeSpec(spec, specFormat));
+            setIsSaved(false);
+            setError(null);
+            setConversionReport({ title: `Upgraded to OpenAPI ${targetVersion}`, issues });
+        } catch (err) {
+            setError(`Failed to upgrade specification: ${err instanceof Error ? err.message : err}`);
+        }
+    };
+
+    // Convert between OpenAPI 3.0 and 3.1 in place
+    const handleVersionConversion = (targetVersion: "3.0" | "3.1") => {
+        try {
+            const parsed = yaml.load(editorValue);
+            const { spec, issues } = targetVersion === "3.1" ? convertOpenAPI30To31(parsed) : convertOpenAPI31To30(parsed);
+            if (spec === parsed) {
+                setError(issues[0]?.message ?? "Conversion failed");
+                return;
+            }
+
+            setEditorValue(serializeSpec(spec, specFormat));
+            setIsSaved(false);
+            setError(null);
+            setConversionReport({ title: `Converted to OpenAPI ${targetVersion}`, issues });
+        } catch (err) {
+            setError(`Failed to convert specification: ${err instanceof Error ? err.message : err}`);
+        }
+    };
+
     // Copy spec content to clipboard
     const handleCopy = (id: string) => {
         const spec = specs.find(s => s.id === id);
@@ -454,6 +1176,8 @@ const saveSpec = () => {
         (spec.tags && spec.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())))
     );
 
+    const documentVersion = detectSpecVersion(editorValue);
+
     // Sort specs by favorite first, then by last modified
     const sortedSpecs = [...filteredSpecs].sort((a, b) => {
         if (a.favorite && !b.favorite) return -1;
@@ -593,6 +1317,16 @@ const saveSpec = () => {
                                                 <div className="flex justify-between text-xs text-slate-400">
                                                     <span>v{spec.version}</span>
                                                     <div className="flex items-center space-x-2">
+                                                        {qualityScores[spec.id] !== undefined && qualityScores[spec.id] !== null && (
+                                                            <Link
+                                                                href={`/quality?spec=${encodeURIComponent(spec.id)}`}
+                                                                className={`font-medium hover:underline ${getQualityScoreClass(qualityScores[spec.id])}`}
+                                                                title="Documentation quality score"
+                                                                onClick={(e) => e.stopPropagation()}
+                                                            >
+                                                                {qualityScores[spec.id]}%
+                                                            </Link>
+                                                        )}
                                                         <span className="uppercase">{spec.format}</span>
                                                         <span>{new Date(spec.lastModified).toLocaleDateString()}</span>
                                                     </div>
@@ -651,6 +1385,20 @@ const saveSpec = () => {
                                             onChange={handleFileChange}
                                             className="hidden"
                                         />
+                                        <Button
+                                            onClick={() => rulesetInputRef.current?.click()}
+                                            className="w-full bg-slate-600 hover:bg-slate-500"
+                                        >
+                                            <FileUp size={16} className="mr-2" />
+                                            Import Spectral Ruleset
+                                        </Button>
+                                        <input
+                                            ref={rulesetInputRef}
+                                            type="file"
+                                            accept=".json,.yaml,.yml"
+                                            onChange={handleRulesetFileChange}
+                                            className="hidden"
+                                        />
                                     </div>
                                 </TabsContent>
 
@@ -731,6 +1479,168 @@ const saveSpec = () => {
                                     </Button>
                                 </div>
 
+                                {documentVersion === "2.0" && (
+                                    <div className="flex items-center bg-slate-700 rounded-md">
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="rounded-r-none text-amber-300"
+                                            onClick={() => handleUpgrade("3.0.3")}
+                                        >
+                                            <ArrowUpCircle size={14} className="mr-1" />
+                                            Upgrade to 3.0
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="rounded-l-none text-amber-300"
+                                            onClick={() => handleUpgrade("3.1.0")}
+                                        >
+                                            3.1
+                                        </Button>
+                                    </div>
+                                )}
+
+                                {(documentVersion === "3.0" || documentVersion === "3.1") && (
+                                    <TooltipProvider>
+                                        <Tooltip>
+                                            <TooltipTrigger asChild>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    className="bg-slate-700 text-slate-300"
+                                                    onClick={() => handleVersionConversion(documentVersion === "3.0" ? "3.1" : "3.0")}
+                                                >
+                                                    <RefreshCw size={14} className="mr-1" />
+                                                    {documentVersion === "3.0" ? "Convert to 3.1" : "Convert to 3.0"}
+                                                </Button>
+                                            </TooltipTrigger>
+                                            <TooltipContent>
+                                                <p>Convert between OpenAPI 3.0 and 3.1, with a report of anything lost</p>
+                                            </TooltipContent>
+                                        </Tooltip>
+                                    </TooltipProvider>
+                                )}
+
+                                <TooltipProvider>
+                                    <Tooltip>
+                                        <TooltipTrigger asChild>
+                                            <select
+                                                value={specRuleset}
+                                                onChange={(e) => {
+                                                    setSpecRuleset(e.target.value);
+                                                    setIsSaved(false);
+                                                }}
+                                                className="h-9 rounded-md bg-slate-700 border border-slate-600 px-2 text-sm text-slate-300"
+                                            >
+                                                {BUILT_IN_RULESETS.map(ruleset => (
+                                                    <option key={ruleset.id} value={ruleset.id}>
+                                                        {ruleset.name} rules
+                                                    </option>
+                                                ))}
+                                                {customRulesets.map(ruleset => (
+                                                    <option key={ruleset.id} value={ruleset.id}>
+                                                        {ruleset.name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </TooltipTrigger>
+                                        <TooltipContent>
+                                            <p>{BUILT_IN_RULESETS.find(ruleset => ruleset.id === specRuleset)?.description ?? "Imported Spectral ruleset"}</p>
+                                        </TooltipContent>
+                                    </Tooltip>
+                                </TooltipProvider>
+
+                                <TooltipProvider>
+                                    <Tooltip>
+                                        <TooltipTrigger asChild>
+                                            <Button
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={() => setShowRulesPanel(true)}
+                                                className="h-9 w-9 border-slate-600 text-slate-300"
+                                            >
+                                                <ListChecks size={16} />
+                                            </Button>
+                                        </TooltipTrigger>
+                                        <TooltipContent>
+                                            <p>Custom rules</p>
+                                        </TooltipContent>
+                                    </Tooltip>
+                                </TooltipProvider>
+
+                                <TooltipProvider>
+                                    <Tooltip>
+                                        <TooltipTrigger asChild>
+                                            <Button
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={runSecurityAudit}
+                                                className="h-9 w-9 border-slate-600 text-slate-300"
+                                            >
+                                                <ShieldCheck size={16} />
+                                            </Button>
+                                        </TooltipTrigger>
+                                        <TooltipContent>
+                                            <p>Security audit (OWASP API Top 10)</p>
+                                        </TooltipContent>
+                                    </Tooltip>
+                                </TooltipProvider>
+
+                                <TooltipProvider>
+                                    <Tooltip>
+                                        <TooltipTrigger asChild>
+                                            <Button
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={() => setShowOutline(!showOutline)}
+                                                className={`h-9 w-9 border-slate-600 ${showOutline ? "bg-slate-600 text-white" : "text-slate-300"}`}
+                                            >
+                                                <ListTree size={16} />
+                                            </Button>
+                                        </TooltipTrigger>
+                                        <TooltipContent>
+                                            <p>{showOutline ? "Hide outline" : "Show outline"}</p>
+                                        </TooltipContent>
+                                    </Tooltip>
+                                </TooltipProvider>
+
+                                <TooltipProvider>
+                                    <Tooltip>
+                                        <TooltipTrigger asChild>
+                                            <Button
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={() => openComponentRename(editorValue)}
+                                                className="h-9 w-9 border-slate-600 text-slate-300"
+                                            >
+                                                <Pencil size={16} />
+                                            </Button>
+                                        </TooltipTrigger>
+                                        <TooltipContent>
+                                            <p>Rename a component (F2)</p>
+                                        </TooltipContent>
+                                    </Tooltip>
+                                </TooltipProvider>
+
+                                <TooltipProvider>
+                                    <Tooltip>
+                                        <TooltipTrigger asChild>
+                                            <Button
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={openComponentCleanup}
+                                                className="h-9 w-9 border-slate-600 text-slate-300"
+                                            >
+                                                <Boxes size={16} />
+                                            </Button>
+                                        </TooltipTrigger>
+                                        <TooltipContent>
+                                            <p>Unused and duplicate components</p>
+                                        </TooltipContent>
+                                    </Tooltip>
+                                </TooltipProvider>
+
                                 <TooltipProvider>
                                     <Tooltip>
                                         <TooltipTrigger asChild>
@@ -754,27 +1664,92 @@ const saveSpec = () => {
                             </div>
                         </div>
 
-                        <div className="flex-1 overflow-hidden rounded-lg border border-slate-700 mb-2">
-                            <Editor
-                                height="100%"
-                                width="100%"
-                                theme="vs-dark"
-                                language={specFormat === "yaml" ? "yaml" : "json"}
-                                value={editorValue}
-                                onChange={handleEditorChange}
-                                onMount={(editor) => {
-                                    editorRef.current = editor;
-                                }}
-                                options={{
-                                    minimap: { enabled: true },
-                                    wordWrap: "on",
-                                    lineNumbers: "on",
-                                    folding: true,
-                                    renderWhitespace: "all",
-                                    tabSize: 2,
-                                    automaticLayout: true,
-                                }}
-                            />
+                        {/* Breadcrumbs of the cursor position */}
+                        <div className="flex items-center flex-wrap text-xs text-slate-400 mb-1 min-h-[1.25rem] font-mono">
+                            <button className="hover:text-slate-200" onClick={() => revealPointer("")}>#</button>
+                            {toBreadcrumbs(cursorPointer).map(crumb => (
+                                <span key={crumb.pointer} className="flex items-center">
+                                    <ChevronRight size={12} className="mx-0.5" />
+                                    <button className="hover:text-slate-200" onClick={() => revealPointer(crumb.pointer)}>
+                                        {crumb.label}
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+
+                        <div className="flex flex-col flex-1 overflow-hidden mb-2">
+                            <div className="flex flex-1 min-h-0 overflow-hidden rounded-lg border border-slate-700">
+                                <div className="flex-1 overflow-hidden">
+                                    <Editor
+                                        height="100%"
+                                        width="100%"
+                                        theme="vs-dark"
+                                        language={specFormat === "yaml" ? "yaml" : "json"}
+                                        value={editorValue}
+                                        onChange={handleEditorChange}
+                                        onMount={(editor, monaco) => {
+                                            editorRef.current = editor;
+                                            monacoRef.current = monaco;
+                                            languageProvidersRef.current.forEach(provider => provider.dispose());
+                                            languageProvidersRef.current = [...registerCompletionProviders(monaco), ...registerRefProviders(monaco)];
+                                            // Follow the cursor once it settles
+                                            editor.onDidChangeCursorPosition(() => {
+                                                clearTimeout(cursorTimerRef.current);
+                                                cursorTimerRef.current = setTimeout(() => {
+                                                    const model = editor.getModel();
+                                                    const position = editor.getPosition();
+                                                    if (model && position) setCursorPointer(sourceMapOf(model).pointerAt(model.getOffsetAt(position)));
+                                                }, 150);
+                                            });
+                                            editor.addAction({
+                                                id: "rename-component",
+                                                label: "Rename Component…",
+                                                keybindings: [monaco.KeyCode.F2],
+                                                contextMenuGroupId: "1_modification",
+                                                run: current => {
+                                                    const model = current.getModel();
+                                                    const position = current.getPosition();
+                                                    if (!model || !position) return;
+                                                    const source = model.getValue();
+                                                    openComponentRename(source, definitionPointerAt(buildSourceMap(source), model.getOffsetAt(position)));
+                                                },
+                                            });
+                                        }}
+                                        options={{
+                                            glyphMargin: true,
+                                            quickSuggestions: { other: true, strings: true, comments: false },
+                                            minimap: { enabled: true },
+                                            wordWrap: "on",
+                                            lineNumbers: "on",
+                                            folding: true,
+                                            renderWhitespace: "all",
+                                            tabSize: 2,
+                                            automaticLayout: true,
+                                        }}
+                                    />
+                                </div>
+                                {showProblems && problemsDock === "side" && (
+                                    <ProblemsPanel
+                                        diagnostics={diagnostics}
+                                        counts={problemCounts}
+                                        dock={problemsDock}
+                                        onDockChange={setProblemsDock}
+                                        onClose={() => setShowProblems(false)}
+                                        onSelect={revealProblem}
+                                    />
+                                )}
+                                {showOutline && <OutlinePanel outline={outline} cursorPointer={cursorPointer} onNavigate={revealPointer} />}
+                            </div>
+                            {showProblems && problemsDock === "bottom" && (
+                                <ProblemsPanel
+                                    diagnostics={diagnostics}
+                                    counts={problemCounts}
+                                    dock={problemsDock}
+                                    onDockChange={setProblemsDock}
+                                    onClose={() => setShowProblems(false)}
+                                    onSelect={revealProblem}
+                                />
+                            )}
                         </div>
 
                         <div className="flex justify-between items-center text-xs text-slate-400">
@@ -786,7 +1761,18 @@ const saveSpec = () => {
                                     </>
                                 )}
                             </div>
-                            <div>
+                            <div className="flex items-center space-x-3">
+                                {editorValue && (
+                                    <button
+                                        className="hover:underline"
+                                        onClick={() => setShowProblems(!showProblems)}
+                                        title={showProblems ? "Hide problems" : "Show problems"}
+                                    >
+                                        <span className="text-red-400">{problemCounts.error} errors</span> •{" "}
+                                        <span className="text-yellow-400">{problemCounts.warning} warnings</span> •{" "}
+                                        <span className="text-sky-400">{problemCounts.info} info</span>
+                                    </button>
+                                )}
                                 {!isSaved && <span className="text-yellow-400">Unsaved changes</span>}
                             </div>
                         </div>
@@ -804,6 +1790,22 @@ const saveSpec = () => {
                     </div>
                 </div>
 
+                <RulesPanel
+                    open={showRulesPanel}
+                    onOpenChange={setShowRulesPanel}
+                    rules={customRules}
+                    onChange={(rules) => {
+                        setCustomRules(rules);
+                        setCustomRulesSaved(false);
+                    }}
+                    onSave={() => {
+                        saveCustomRules(customRules);
+                        setCustomRulesSaved(true);
+                    }}
+                    isSaved={customRulesSaved}
+                    diagnostics={diagnostics}
+                />
+
                 {/* Delete confirmation dialog */}
                 <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
                     <DialogContent className="bg-slate-800 text-white border-slate-700">
@@ -832,6 +1834,219 @@ const saveSpec = () => {
                     </DialogContent>
                 </Dialog>
 
+                {/* Conversion report dialog */}
+                <Dialog open={!!conversionReport} onOpenChange={(open) => !open && setConversionReport(null)}>
+                    <DialogContent className="bg-slate-800 text-white border-slate-700 max-w-2xl">
+                        <DialogHeader>
+                            <DialogTitle>{conversionReport?.title}</DialogTitle>
+                            <DialogDescription className="text-slate-300">
+                                {conversionReport?.description ?? (conversionReport?.issues.length
+                                    ? "Some parts of the specification could not be converted cleanly. Review them before saving."
+                                    : "The specification was converted without issues. Review the result before saving.")}
+                            </DialogDescription>
+                        </DialogHeader>
+
+                        {!!conversionReport?.issues.length && (
+                            <ul className="max-h-80 overflow-auto space-y-2 text-sm">
+                                {conversionReport.issues.map((issue, index) => (
+                                    <li key={index} className="p-2 rounded-md bg-slate-700">
+                                        <span className={`font-medium uppercase text-xs mr-2 ${getValidationSeverityClass(issue.severity)}`}>
+                                            {issue.severity}
+                                        </span>
+                                        {issue.path && <code className="text-xs text-slate-400 mr-2">{issue.path}</code>}
+                                        <span>{issue.message}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <DialogFooter>
+                            <Button onClick={() => setConversionReport(null)}>Close</Button>
+                        </DialogFooter>
+                    </DialogContent>
+                </Dialog>
+
+                {/* Security audit dialog */}
+                <Dialog open={!!securityFindings} onOpenChange={(open) => !open && setSecurityFindings(null)}>
+                    <DialogContent className="bg-slate-800 text-white border-slate-700 max-w-3xl">
+                        <DialogHeader>
+                            <DialogTitle>Security Audit</DialogTitle>
+                            <DialogDescription className="text-slate-300">
+                                {securityFindings?.length
+                                    ? `${securityFindings.length} findings, grouped by OWASP API Security Top 10 category. Click a finding to jump to it.`
+                                    : "No security findings for this specification."}
+                            </DialogDescription>
+                        </DialogHeader>
+
+                        {!!securityFindings?.length && (
+                            <div className="max-h-[28rem] overflow-auto space-y-4 text-sm">
+                                {groupByCategory(securityFindings).map(([category, findings]) => (
+                                    <div key={category}>
+                                        <h3 className="font-semibold text-slate-200 mb-2">
+                                            {category} <span className="text-slate-400 font-normal">({findings.length})</span>
+                                        </h3>
+                                        <ul className="space-y-1">
+                                            {findings.map((finding, index) => (
+                                                <li
+                                                    key={index}
+                                                    className="p-2 rounded-md bg-slate-700 cursor-pointer hover:bg-slate-600"
+                                                    onClick={() => revealFinding(finding)}
+                                                >
+                                                    <span className={`font-medium uppercase text-xs mr-2 ${getValidationSeverityClass(finding.severity)}`}>
+                                                        {finding.severity}
+                                                    </span>
+                                                    <span>{finding.message}</span>
+                                                    <div className="text-xs text-slate-400 mt-1">
+                                                        {finding.rule}
+                                                        {finding.range && ` · line ${finding.range.startLineNumber}`}
+                                                        {finding.path && <code className="ml-2 break-all">{finding.path}</code>}
+                                                    </div>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <DialogFooter>
+                            <Button onClick={() => setSecurityFindings(null)}>Close</Button>
+                        </DialogFooter>
+                    </DialogContent>
+                </Dialog>
+
+                {/* Component cleanup dialog */}
+                <Dialog open={!!componentReport} onOpenChange={(open) => !open && setComponentReport(null)}>
+                    <DialogContent className="bg-slate-800 text-white border-slate-700 max-w-2xl">
+                        <DialogHeader>
+                            <DialogTitle>Component Cleanup</DialogTitle>
+                            <DialogDescription className="text-slate-300">
+                                {componentReport?.unused.length || componentReport?.duplicates.length
+                                    ? "Remove components nothing references, or merge identical ones. Every $ref is updated."
+                                    : "Every component is referenced and none are duplicated."}
+                            </DialogDescription>
+                        </DialogHeader>
+
+                        {componentReport && (
+                            <div className="max-h-96 overflow-auto space-y-4 text-sm">
+                                {componentReport.unused.length > 0 && (
+                                    <div>
+                                        <div className="flex items-center justify-between mb-2">
+                                            <h3 className="font-semibold text-slate-200">Unused ({componentReport.unused.length})</h3>
+                                            <Button size="sm" variant="destructive" onClick={() => applyComponentCleanup("remove-unused")}>
+                                                <Trash2 size={14} className="mr-1" />
+                                                Remove unused
+                                            </Button>
+                                        </div>
+                                        <ul className="space-y-1">
+                                            {componentReport.unused.map(component => (
+                                                <li key={component.ref} className="p-2 rounded-md bg-slate-700">
+                                                    <code className="text-xs text-slate-300">{component.ref}</code>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+
+                                {componentReport.duplicates.length > 0 && (
+                                    <div>
+                                        <div className="flex items-center justify-between mb-2">
+                                            <h3 className="font-semibold text-slate-200">Duplicates ({componentReport.duplicates.length})</h3>
+                                            <Button size="sm" onClick={() => applyComponentCleanup("collapse-duplicates")}>
+                                                <Copy size={14} className="mr-1" />
+                                                Collapse duplicates
+                                            </Button>
+                                        </div>
+                                        <ul className="space-y-1">
+                                            {componentReport.duplicates.map(group => (
+                                                <li key={group.canonical.ref} className="p-2 rounded-md bg-slate-700">
+                                                    <code className="text-xs text-green-400">{group.canonical.ref}</code>
+                                                    <div className="text-xs text-slate-400 mt-1">
+                                                        replaces {group.duplicates.map(duplicate => duplicate.name).join(", ")}
+                                                    </div>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        <DialogFooter>
+                            <Button onClick={() => setComponentReport(null)}>Close</Button>
+                        </DialogFooter>
+                    </DialogContent>
+                </Dialog>
+
+                {/* Component rename dialog */}
+                <Dialog open={!!componentRename} onOpenChange={(open) => !open && setComponentRename(null)}>
+                    <DialogContent className="bg-slate-800 text-white border-slate-700 max-w-2xl">
+                        <DialogHeader>
+                            <DialogTitle>Rename Component</DialogTitle>
+                            <DialogDescription className="text-slate-300">
+                                Renames the component and updates every $ref, discriminator mapping and security requirement that uses it.
+                            </DialogDescription>
+                        </DialogHeader>
+
+                        {componentRename && (
+                            <div className="space-y-4 text-sm">
+                                <div className="flex space-x-2">
+                                    <select
+                                        value={componentRename.selectedRef}
+                                        onChange={(e) => {
+                                            const selected = componentRename.components.find(component => component.ref === e.target.value);
+                                            if (selected) setComponentRename({ ...componentRename, selectedRef: selected.ref, newName: selected.name });
+                                        }}
+                                        className="h-9 flex-1 rounded-md bg-slate-700 border border-slate-600 px-2 text-sm text-slate-300"
+                                    >
+                                        {componentRename.components.map(component => (
+                                            <option key={component.ref} value={component.ref}>
+                                                {component.segments.slice(0, -1).join(".")} / {component.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <Input
+                                        value={componentRename.newName}
+                                        onChange={(e) => setComponentRename({ ...componentRename, newName: e.target.value })}
+                                        onKeyDown={(e) => e.key === "Enter" && applyComponentRename()}
+                                        placeholder="New name"
+                                        className="flex-1 bg-slate-700 border-slate-600 text-slate-200"
+                                        autoFocus
+                                    />
+                                </div>
+
+                                {renamePlan?.problem ? (
+                                    <p className="text-yellow-400">{renamePlan.problem}</p>
+                                ) : (
+                                    <div>
+                                        <h3 className="font-semibold text-slate-200 mb-2">
+                                            {renamePlan?.preview.length} {renamePlan?.preview.length === 1 ? "line" : "lines"} will change
+                                        </h3>
+                                        <ul className="max-h-80 overflow-auto space-y-1 font-mono text-xs">
+                                            {renamePlan?.preview.map(line => (
+                                                <li key={line.lineNumber} className="p-2 rounded-md bg-slate-700">
+                                                    <div className="text-slate-400 mb-1">Line {line.lineNumber}</div>
+                                                    <div className="text-red-300 whitespace-pre overflow-x-auto">- {line.before.trim()}</div>
+                                                    <div className="text-green-300 whitespace-pre overflow-x-auto">+ {line.after.trim()}</div>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        <DialogFooter>
+                            <Button variant="outline" onClick={() => setComponentRename(null)} className="border-slate-600 text-slate-300 hover:bg-slate-700">
+                                Cancel
+                            </Button>
+                            <Button onClick={applyComponentRename} disabled={!renamePlan || !!renamePlan.problem}>
+                                Rename
+                            </Button>
+                        </DialogFooter>
+                    </DialogContent>
+                </Dialog>
+
                 {/* Import dialog */}
                 <Dialog open={isImporting} onOpenChange={setIsImporting}>
                     <DialogContent className="bg-slate-800 text-white border-slate-700 max-w-2xl">
@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/router';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Navbar } from '@/components/ui/navbar';
+import { ApiSpec, getMethodColor, useLocalStorageSpecs, useSpecParser } from '@/hooks/useOpenAPIParser';
+import { computeQualityReport, getQualityScoreClass, QualityCheck } from '@/lib/quality';
+
+// Constants
+const LOCAL_STORAGE_KEY = "spec_view_saved_specs";
+
+const QualityDashboard: React.FC = () => {
+    const router = useRouter();
+    const { specs, isLoading: specsLoading } = useLocalStorageSpecs(LOCAL_STORAGE_KEY);
+    const [selectedSpec, setSelectedSpec] = useState<ApiSpec | null>(null);
+    // Checks whose failing endpoints are listed
+    const [expandedChecks, setExpandedChecks] = useState<Set<string>>(new Set());
+
+    const { endpoints, isLoading: parsingLoading, error: parsingError } = useSpecParser(selectedSpec);
+    const report = useMemo(() => computeQualityReport(endpoints), [endpoints]);
+
+    // Select the spec named in the URL (linked from the editor), or the first one. The query is empty
+    // until the router is ready, so nothing is picked before then.
+    useEffect(() => {
+        if (!router.isReady || specs.length === 0 || selectedSpec) return;
+        const requested = specs.find(spec => spec.id === router.query.spec);
+        setSelectedSpec(requested ?? specs[0]);
+    }, [specs, selectedSpec, router.isReady, router.query.spec]);
+
+    const handleSelectSpec = (spec: ApiSpec) => {
+        setSelectedSpec(spec);
+        setExpandedChecks(new Set());
+        router.replace({ pathname: '/quality', query: { spec: spec.id } }, undefined, { shallow: true });
+    };
+
+    const toggleCheck = (checkId: string) => {
+        setExpandedChecks(previous => {
+            const next = new Set(previous);
+            if (next.has(checkId)) {
+                next.delete(checkId);
+            } else {
+                next.add(checkId);
+            }
+            return next;
+        });
+    };
+
+    const renderCheck = (check: QualityCheck) => {
+        const percent = check.total > 0 ? Math.round(check.passed / check.total * 100) : null;
+        const expanded = expandedChecks.has(check.id);
+
+        return (
+            <Card key={check.id} className="bg-gray-800 border-gray-700">
+                <div
+                    className={`p-4 ${check.failures.length > 0 ? 'cursor-pointer hover:bg-gray-700/50' : ''}`}
+                    onClick={() => check.failures.length > 0 && toggleCheck(check.id)}
+                >
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center text-slate-200 font-medium">
+                            {check.failures.length > 0 && (expanded ? <ChevronDown size={16} className="mr-1" /> : <ChevronRight size={16} className="mr-1" />)}
+                            {check.label}
+                        </div>
+                        <div className="flex items-center space-x-3 text-sm">
+                            <span className="text-slate-400">{check.passed} / {check.total}</span>
+                            <span className={`font-semibold w-12 text-right ${getQualityScoreClass(percent)}`}>
+                                {percent === null ? 'n/a' : `${percent}%`}
+                            </span>
+                        </div>
+                    </div>
+                    <div className="mt-2 h-2 rounded bg-gray-700 overflow-hidden">
+                        <div className="h-full bg-teal-500" style={{ width: `${percent ?? 0}%` }} />
+                    </div>
+                </div>
+
+                {expanded && (
+                    <CardContent className="pt-0">
+                        <ul className="space-y-1 text-sm max-h-80 overflow-y-auto">
+                            {check.failures.map((failure, index) => (
+                                <li key={index} className="flex items-center space-x-2 p-2 rounded bg-gray-900/60">
+                                    <Badge className={`${getMethodColor(failure.method)} uppercase`}>{failure.method}</Badge>
+                                    <span className="font-mono text-slate-200 break-all">{failure.path}</span>
+                                    <span className="text-slate-400">{failure.detail}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </CardContent>
+                )}
+            </Card>
+        );
+    };
+
+    return (
+        <div className="flex flex-col h-screen bg-gray-900 text-slate-200">
+            <Navbar />
+
+            <div className="flex flex-1 overflow-hidden">
+                {/* Spec list */}
+                <Card className="w-64 bg-gray-800 border-gray-700 shadow-lg mr-6">
+                    <CardHeader>
+                        <CardTitle className="text-xl font-bold text-slate-100">API Specifications</CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-4">
+                        <ScrollArea className="h-[calc(100vh-220px)]">
+                            {specsLoading ? (
+                                <div className="text-center p-4">
+                                    <div className="text-slate-400">Loading specs...</div>
+                                </div>
+                            ) : specs.length === 0 ? (
+                                <p className="text-slate-400 italic">No API specs found</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {specs.map(spec => (
+                                        <div
+                                            key={spec.id}
+                                            className={`p-2 rounded cursor-pointer hover:bg-gray-700 transition-colors ${selectedSpec?.id === spec.id ? 'bg-gray-700 border border-gray-600' : ''}`}
+                                            onClick={() => handleSelectSpec(spec)}
+                                        >
+                                            <div className="font-medium text-slate-200 break-words">{spec.name}</div>
+                                            <div className="flex justify-between text-xs text-slate-400">
+                                                <span>v{spec.version}</span>
+                                                <span>{new Date(spec.lastModified).toLocaleDateString()}</span>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </ScrollArea>
+                    </CardContent>
+                </Card>
+
+                {/* Report */}
+                <div className="flex-1 overflow-y-auto p-6">
+                    {parsingError ? (
+                        <div className="bg-red-900/70 text-slate-200 p-3 rounded-md">
+                            <p className="font-medium">Error parsing specification</p>
+                            <p className="text-sm text-slate-300">{parsingError}</p>
+                        </div>
+                    ) : parsingLoading ? (
+                        <div className="text-slate-400">Analyzing specification...</div>
+                    ) : selectedSpec && (
+                        <div className="max-w-4xl space-y-4">
+                            <div className="flex items-baseline justify-between">
+                                <div>
+                                    <h1 className="text-2xl font-bold text-slate-100">{selectedSpec.name}</h1>
+                                    <p className="text-slate-400 text-sm">
+                                        Documentation quality across {endpoints.length} {endpoints.length === 1 ? 'endpoint' : 'endpoints'}
+                                    </p>
+                                </div>
+                                <div className={`text-5xl font-bold ${getQualityScoreClass(report.score)}`}>
+                                    {report.score === null ? 'n/a' : `${report.score}%`}
+                                </div>
+                            </div>
+
+                            {report.checks.map(renderCheck)}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default QualityDashboard;
@@ -3,18 +3,25 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { ChevronDown, ChevronRight, ZoomIn, ZoomOut, RotateCcw, Move, RefreshCw } from 'lucide-react';
+import { ChevronDown, ChevronRight, ZoomIn, ZoomOut, RotateCcw, Move, RefreshCw, AlertTriangle, X } from 'lucide-react';
 import { Navbar } from '@/components/ui/navbar';
+import { asString } from '@/lib/spec-document';
 
 // Import our custom hooks
 import {
     ApiSpec,
+    MediaType,
+    ResponseHeader,
+    ResponseLink,
     useLocalStorageSpecs,
     useSpecParser,
     useGraphVisualization,
     useViewState,
+    isOperationNode,
     getMethodColor,
-    getStatusColor
+    getStatusColor,
+    getValidationSeverityClass,
+    getErrorSuggestion
 } from '@/hooks/useOpenAPIParser';
 
 // Constants
@@ -26,6 +33,12 @@ const NODE_VERTICAL_SPACING = 180; // Increased vertical spacing
 const RESPONSE_HORIZONTAL_OFFSET = 0; // Responses align horizontally with their parent
 const RESPONSE_VERTICAL_SPACING = 100; // Space between responses
 
+// Distinguishes webhook and callback nodes from regular operations
+const NODE_KIND_STYLES: Record<string, { label: string; border: string; badge: string }> = {
+    webhook: { label: 'Webhook', border: 'rgba(13, 148, 136, 0.7)', badge: 'border-teal-500 text-teal-300' },
+    callback: { label: 'Callback', border: 'rgba(217, 119, 6, 0.7)', badge: 'border-amber-500 text-amber-300' }
+};
+
 // Add a utility function to help debug node IDs when needed
 const debugNodeId = (id) => {
     console.log('Node ID:', id);
@@ -48,8 +61,20 @@ const OpenAPIViewer: React.FC = () => {
     // State for keeping track of the expanded endpoints to preserve this information
     const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
 
+    // Media type shown on each response node that offers more than one
+    const [selectedMediaTypes, setSelectedMediaTypes] = useState<Record<string, string>>({});
+
     // Parse the selected spec into endpoints
-    const { endpoints, isLoading: parsingLoading, error: parsingError } = useSpecParser(selectedSpec);
+    const {
+        endpoints,
+        isLoading: parsingLoading,
+        error: parsingError,
+        validationErrors,
+        progress: parsingProgress
+    } = useSpecParser(selectedSpec);
+
+    // Whether the validation and lint results panel is open
+    const [showIssues, setShowIssues] = useState(false);
 
     // Custom hook modification to pass expanded nodes state
     const { nodes, edges, toggleNodeExpansion } = useGraphVisualization(
@@ -90,6 +115,7 @@ const OpenAPIViewer: React.FC = () => {
     const handleSelectSpec = (spec: ApiSpec) => {
         setSelectedSpec(spec);
         setExpandedNodes(new Set()); // Reset expanded nodes when changing specs
+        setSelectedMediaTypes({});
         resetView(); // Reset view when changing specs
     };
 
@@ -116,14 +142,11 @@ const OpenAPIViewer: React.FC = () => {
                 // If expanding, we can add an animation effect by slightly 
                 // repositioning the response nodes with a timeout
                 if (viewContainerRef.current) {
-                    // Find all response nodes for this endpoint
-                    const endpointPrefix = nodeId.replace('endpoint-', '');
-                    const responsePrefix = `response-${endpointPrefix}`;
-
                     // Apply slight random offset animation to responses
                     setTimeout(() => {
                         nodes.forEach((node, idx) => {
-                            if (node.id.startsWith(responsePrefix)) {
+                            // Find all response nodes for this endpoint
+                            if (node.parentId === nodeId) {
                                 // Animate nodes with slight delay between each
                                 const nodeEl = viewContainerRef.current.querySelector(`[data-node-id="${node.id}"]`);
                                 if (nodeEl) {
@@ -185,11 +208,9 @@ const OpenAPIViewer: React.FC = () => {
 
             if (draggedNode) {
                 // If dragging an endpoint, move all its child response nodes too
-                if (draggedNode.type === 'endpoint') {
-                    const responsePrefix = `response-${id.replace('endpoint-', '')}`;
-
+                if (isOperationNode(draggedNode)) {
                     updatedNodes.forEach(node => {
-                        if (node.id.startsWith(responsePrefix)) {
+                        if (node.parentId === id) {
                             node.x += dx;
                             node.y += dy;
                         }
@@ -198,16 +219,13 @@ const OpenAPIViewer: React.FC = () => {
 
                 // If dragging a response, we need to check if it's part of a response group
                 else if (draggedNode.type === 'response') {
-                    // Extract the endpoint ID from the response ID
-                    const endpointId = draggedNode.id.split('-').slice(1, -1).join('-');
-                    const isGrouped = endpointId && expandedNodes.has(`endpoint-${endpointId}`);
+                    const parentId = draggedNode.parentId;
+                    const isGrouped = parentId && expandedNodes.has(parentId);
 
                     // If this response belongs to an expanded endpoint, move all sibling responses too
                     if (isGrouped) {
-                        const responseGroup = `response-${endpointId}`;
-
                         updatedNodes.forEach(node => {
-                            if (node.id.startsWith(responseGroup) && node.id !== draggedNode.id) {
+                            if (node.parentId === parentId && node.id !== draggedNode.id) {
                                 node.x += dx;
                                 node.y += dy;
                             }
@@ -289,6 +307,31 @@ const OpenAPIViewer: React.FC = () => {
                         />
                     </svg>
                 );
+            } else if (edge.type === 'link') {
+                // Arcs for response links between operations, labelled with the link name
+                const midX = (sourceNode.x + targetNode.x) / 2;
+                const midY = (sourceNode.y + targetNode.y) / 2 - 40;
+
+                return (
+                    <svg
+                        key={edge.id}
+                        className="absolute top-0 left-0 w-full h-full pointer-events-none overflow-visible"
+                        style={{ zIndex: 1 }}
+                    >
+                        <path
+                            d={`M ${sourceNode.x} ${sourceNode.y} Q ${midX} ${midY}, ${targetNode.x} ${targetNode.y}`}
+                            fill="none"
+                            stroke="rgba(129, 140, 248, 0.7)"
+                            strokeWidth="2"
+                            strokeDasharray="2,4"
+                        />
+                        {edge.label && (
+                            <text x={midX} y={midY + 16} fill="rgb(165, 180, 252)" fontSize="11" textAnchor="middle">
+                                {edge.label}
+                            </text>
+                        )}
+                    </svg>
+                );
             } else if (edge.type === 'tree') {
                 // Tree-style connections for responses to indicate hierarchy
                 const midY = sourceNode.y + (targetNode.y - sourceNode.y) / 2;
@@ -407,9 +450,10 @@ const OpenAPIViewer: React.FC = () => {
                 );
             }
 
-            // Endpoint node
-            if (node.type === 'endpoint') {
+            // Endpoint node (operations, webhooks and callbacks share the same card)
+            if (isOperationNode(node)) {
                 const isExpanded = expandedNodes.has(node.id);
+                const kindStyle = NODE_KIND_STYLES[node.type];
                 const totalResponses = node.data.responses?.length || 0;
 
                 // Count visible responses
@@ -425,13 +469,21 @@ const OpenAPIViewer: React.FC = () => {
                             transform: 'translate(-50%, -50%)',
                             minWidth: '220px',
                             zIndex: 5,
-                            borderColor: isExpanded ? 'rgba(79, 70, 229, 0.5)' : 'rgba(75, 85, 99, 0.5)'
+                            borderColor: isExpanded ? 'rgba(79, 70, 229, 0.5)' : (kindStyle?.border ?? 'rgba(75, 85, 99, 0.5)'),
+                            borderStyle: node.type === 'callback' ? 'dashed' : 'solid'
                         }}
                     >
                         <div className="flex items-center justify-between mb-2">
-                            <Badge className={`${getMethodColor(node.data.method)}`}>
-                                {node.data.method}
-                            </Badge>
+                            <div className="flex items-center space-x-2">
+                                <Badge className={`${getMethodColor(node.data.method)}`}>
+                                    {node.data.method}
+                                </Badge>
+                                {kindStyle && (
+                                    <Badge variant="outline" className={kindStyle.badge}>
+                                        {kindStyle.label}
+                                    </Badge>
+                                )}
+                            </div>
                             <div className="flex items-center space-x-2">
                                 <div
                                     className="cursor-pointer hover:bg-gray-700 p-1 rounded-md transition-colors"
@@ -450,7 +502,10 @@ const OpenAPIViewer: React.FC = () => {
                                 </div>
                             </div>
                         </div>
-                        <div className="font-medium text-slate-200 break-words">{node.data.path}</div>
+                        <div className="font-medium text-slate-200 break-words">{node.data.path ?? node.data.label}</div>
+                        {node.data.callbackName && (
+                            <div className="text-xs text-amber-300 mt-1">on {node.data.callbackName}</div>
+                        )}
                         {node.data.summary && (
                             <div className="text-xs text-slate-400 mt-1 line-clamp-2">
                                 {node.data.summary}
@@ -475,6 +530,8 @@ const OpenAPIViewer: React.FC = () => {
             // Response node
             if (node.type === 'response') {
                 const isExpanded = isChild;
+                const mediaTypes: MediaType[] = node.data.mediaTypes || [];
+                const activeMediaType = mediaTypes.find(m => m.mediaType === selectedMediaTypes[node.id]) ?? mediaTypes[0];
 
                 return (
                     <div
@@ -504,7 +561,46 @@ const OpenAPIViewer: React.FC = () => {
                             </div>
                         </div>
                         <div className="text-sm text-slate-200">{node.data.description}</div>
-                        {node.data.content && (
+                        {mediaTypes.length > 1 && (
+                            <div className="mt-2 flex flex-wrap gap-1">
+                                {mediaTypes.map(m => (
+                                    <button
+                                        key={m.mediaType}
+                                        className={`px-1.5 py-0.5 rounded text-xs transition-colors ${m === activeMediaType ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-slate-300 hover:bg-gray-600'}`}
+                                        onClick={() => setSelectedMediaTypes(prev => ({ ...prev, [node.id]: m.mediaType }))}
+                                    >
+                                        {m.mediaType}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {node.data.headers?.length > 0 && (
+                            <div className="mt-2 text-xs">
+                                <div className="text-slate-400 mb-1">Headers</div>
+                                {node.data.headers.map((header: ResponseHeader) => (
+                                    <div key={header.name} className="flex justify-between space-x-2 text-slate-300" title={header.description}>
+                                        <span className="font-mono">{header.name}{header.required && <span className="text-red-400">*</span>}</span>
+                                        <span className="text-slate-500">{asString(header.schema?.type) ?? ''}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {node.data.links?.length > 0 && (
+                            <div className="mt-2 text-xs">
+                                <div className="text-slate-400 mb-1">Links</div>
+                                {node.data.links.map((link: ResponseLink) => (
+                                    <div key={link.name} className="text-indigo-300" title={link.description}>
+                                        {link.name} → {link.operationId ?? link.operationRef}
+                                        {!link.targetId && <span className="text-yellow-500 ml-1">(unresolved)</span>}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {activeMediaType ? (
+                            <div className="mt-2 text-xs bg-gray-700 p-2 rounded max-h-32 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-600 text-slate-300">
+                                <pre>{JSON.stringify({ type: activeMediaType.mediaType, schema: activeMediaType.schema, example: activeMediaType.example, examples: activeMediaType.examples, encoding: activeMediaType.encoding }, null, 2)}</pre>
+                            </div>
+                        ) : node.data.content && (
                             <div className="mt-2 text-xs bg-gray-700 p-2 rounded max-h-32 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-600 text-slate-300">
                                 <pre>{JSON.stringify(node.data.content, null, 2)}</pre>
                             </div>
@@ -608,6 +704,18 @@ const OpenAPIViewer: React.FC = () => {
                                 )}
                             </div>
                             <div className="flex items-center space-x-3">
+                                {validationErrors.length > 0 && (
+                                    <Button
+                                        onClick={() => setShowIssues(!showIssues)}
+                                        variant="outline"
+                                        size="sm"
+                                        className="bg-gray-700 border-gray-600 hover:bg-gray-600 hover:text-slate-100"
+                                        title="Validation and lint results"
+                                    >
+                                        <AlertTriangle size={16} className="mr-1" />
+                                        {validationErrors.length} {validationErrors.length === 1 ? 'issue' : 'issues'}
+                                    </Button>
+                                )}
                                 <Button
                                     onClick={() => handleZoom(-0.1)}
                                     variant="outline"
@@ -665,6 +773,39 @@ const OpenAPIViewer: React.FC = () => {
                             </div>
                         )}
 
+                        {showIssues && validationErrors.length > 0 && (
+                            <Card
+                                className="absolute top-4 right-4 w-96 max-h-[60%] overflow-auto bg-gray-800 border-gray-700 shadow-lg z-50"
+                                onMouseDown={(e) => e.stopPropagation()}
+                            >
+                                <div className="flex items-center justify-between p-3 border-b border-gray-700">
+                                    <span className="font-medium text-slate-200">Issues</span>
+                                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setShowIssues(false)}>
+                                        <X size={14} />
+                                    </Button>
+                                </div>
+                                <ul className="p-3 space-y-2 text-sm">
+                                    {validationErrors.map((issue, index) => (
+                                        <li key={index} className="p-2 rounded bg-gray-700/60">
+                                            <div className="flex items-center justify-between text-xs mb-1">
+                                                <span className={`font-medium uppercase ${getValidationSeverityClass(issue.severity)}`}>{issue.severity}</span>
+                                                {(issue.rule ?? issue.code) && <span className="text-slate-400">{issue.rule ?? issue.code}</span>}
+                                                {issue.category && <span className="text-slate-500">{issue.category}</span>}
+                                            </div>
+                                            <div className="text-slate-200">{issue.message}</div>
+                                            {issue.path && <code className="text-xs text-slate-400 break-all">{issue.path}</code>}
+                                            {issue.range && (
+                                                <div className="text-xs text-slate-500 font-mono">
+                                                    Ln {issue.range.startLineNumber}, Col {issue.range.startColumn}
+                                                </div>
+                                            )}
+                                            {getErrorSuggestion(issue) && <div className="text-xs text-teal-300 mt-1">{getErrorSuggestion(issue)}</div>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </Card>
+                        )}
+
                         <div
                             className="absolute w-full h-full"
                             style={{
@@ -674,7 +815,17 @@ const OpenAPIViewer: React.FC = () => {
                         >
                             {isLoading ? (
                                 <div className="flex items-center justify-center h-full">
-                                    <div className="text-slate-400">Loading visualization...</div>
+                                    <div className="text-slate-400 text-center">
+                                        <div>Loading visualization...</div>
+                                        {parsingProgress && (
+                                            <div className="mt-2 w-48">
+                                                <div className="h-1.5 rounded bg-gray-700 overflow-hidden">
+                                                    <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${parsingProgress.percent}%` }} />
+                                                </div>
+                                                <div className="text-xs mt-1 capitalize">{parsingProgress.stage}...</div>
+                                            </div>
+                                        )}
+                                    </div>
                                 </div>
                             ) : selectedSpec ? (
                                 <>
@@ -704,6 +855,7 @@ const OpenAPIViewer: React.FC = () => {
                             <div>Wheel: Zoom in/out</div>
                             <div>Drag: Pan view</div>
                             <div>Click endpoint: Expand/collapse responses</div>
+                            <div>Dashed: Callback registered by an operation</div>
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,35 @@
+// workers/spec-analysis.worker.ts
+import { runCustomRules } from '@/lib/custom-rules';
+import { analyzeSpecText } from '@/lib/spec-analysis';
+import { attachSourceRanges } from '@/lib/source-map';
+import type { SpecAnalysisRequest, SpecAnalysisResponse } from '@/hooks/useOpenAPIParser';
+
+// Checks the editor text off the main thread so typing stays responsive on large specs
+const ctx = self as unknown as Worker;
+
+// Custom rules of the previous request, stopped when a newer request arrives
+let customRulesController: AbortController | null = null;
+
+ctx.onmessage = (event: MessageEvent<SpecAnalysisRequest>) => {
+    const { requestId, text, ruleset, customRulesets, customRules } = event.data;
+
+    customRulesController?.abort();
+    const controller = new AbortController();
+    customRulesController = controller;
+
+    const { diagnostics, outline, sourceMap } = analyzeSpecText(text, ruleset, customRulesets);
+    ctx.postMessage({ requestId, diagnostics, outline } as SpecAnalysisResponse);
+
+    // Custom rules run in a sandbox of their own; their results follow as a second, complete response
+    const document = sourceMap?.document;
+    if (!sourceMap || !document || typeof document !== 'object') return;
+
+    runCustomRules(document, customRules, controller.signal).then(customResults => {
+        if (controller.signal.aborted || customResults.length === 0) return;
+        ctx.postMessage({
+            requestId,
+            diagnostics: [...diagnostics, ...attachSourceRanges(customResults, sourceMap)],
+            outline
+        } as SpecAnalysisResponse);
+    });
+};
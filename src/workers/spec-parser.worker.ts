@@ -0,0 +1,32 @@
+// workers/spec-parser.worker.ts
+import { parseSpecWithCache } from '@/lib/parse-cache';
+import { failedParseResult, ParseResult } from '@/lib/spec-parser';
+import type { SpecParserRequest, SpecParserResponse } from '@/hooks/useOpenAPIParser';
+
+// Parsing, dereferencing and validation run here so large specs do not block the page
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (event: MessageEvent<SpecParserRequest>) => {
+    const { requestId, spec, customRulesets } = event.data;
+
+    const post = (message: SpecParserResponse) => ctx.postMessage(message);
+
+    // A rejection here would not reach the page, which would then wait for a result forever
+    let result: ParseResult;
+    try {
+        result = await parseSpecWithCache(
+            spec,
+            progress => post({ requestId, type: 'progress', progress }),
+            customRulesets
+        );
+    } catch (parseError) {
+        result = failedParseResult(parseError);
+    }
+
+    try {
+        post({ requestId, type: 'result', result });
+    } catch (postError) {
+        // e.g. a DataCloneError for a result that cannot be copied to the page
+        post({ requestId, type: 'result', result: failedParseResult(postError) });
+    }
+};